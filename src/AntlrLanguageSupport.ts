@@ -12,8 +12,15 @@ import * as path from "path";
 
 import { ATNStateType, TransitionType } from "antlr4ts/atn";
 
+import { Symbol, VariableSymbol } from "antlr4-c3";
+
 import { SourceContext } from './SourceContext';
+import { GrammarSpecContext } from "../parser/ANTLRv4Parser";
 import { GrapsDebugger } from "./GrapsDebugger";
+import {
+    GrapsSymbolTable, RuleSymbol, TokenSymbol, FragmentTokenSymbol, VirtualTokenSymbol, LexerModeSymbol,
+    TokenChannelSymbol, RuleVariableSymbol
+} from "./GrapsSymbolTable";
 
 export enum SymbolGroupKind { // Multiple symbol kinds can be involved in a symbol lookup.
     TokenRef,
@@ -38,7 +45,16 @@ export enum SymbolKind {
     Action,
     Predicate,
     Operator,
-    Option
+    Option,
+    Grammar,
+    OptionsBlock,
+    TokensBlock,
+    ChannelsBlock,
+    AlternativeLabel,
+    RuleParameter,
+    RuleReturnValue,
+    RuleLocalVariable,
+    ElementLabel
 };
 
 /**
@@ -61,7 +77,195 @@ export class SymbolInfo {
     name: string;
     source: string;
     definition: Definition | undefined;
-    description: string | undefined; // Used for code completion. Provides a small description for certain symbols.
+    description: string | undefined; // The documentation of a symbol (from doc comments) or a small description for
+                                     // certain built-in symbols, used for code completion and hover info.
+    signature?: string;              // Only for parser rules: name, parameters, return values and locals.
+    snippet?: string;                // Only for code completion: text to insert instead of the name, which can
+                                     // contain tab stops and placeholders (`$1`, `${1:name}`, TextMate syntax).
+};
+
+/**
+ * An entry in the hierarchical symbol outline of a grammar (see `getDocumentSymbols()`).
+ */
+export class DocumentSymbol {
+    name: string;
+    kind: SymbolKind;
+    range: LexicalRange;     // The full range of the symbol (e.g. an entire rule, including its alternatives).
+    nameRange: LexicalRange; // The range of the symbol's name (or introducing keyword, for blocks).
+    children: DocumentSymbol[];
+};
+
+export enum DocumentHighlightKind {
+    Definition, // The name of a symbol where it is defined (e.g. the name of a rule or a label assignment).
+    Reference   // A read access to a symbol (e.g. a rule invocation or `$ID.text` in an action).
+};
+
+/**
+ * An occurrence of a symbol in a single grammar, as returned by `getDocumentHighlights()`.
+ */
+export class DocumentHighlight {
+    range: LexicalRange;
+    kind: DocumentHighlightKind;
+};
+
+export enum FoldingRangeKind {
+    Rule,    // A parser or lexer rule.
+    Block,   // An options, tokens or channels block.
+    Action,  // A named action (e.g. `@header`, `@init`) or an inline action block.
+    Mode,    // A lexer mode with all its rules.
+    Comment  // A multi line comment or a group of line comments.
+};
+
+/**
+ * A region in a grammar which can be collapsed by an editor, as returned by `getFoldingRanges()`.
+ */
+export class FoldingRange {
+    range: LexicalRange;
+    kind: FoldingRangeKind;
+};
+
+/**
+ * The classification of an identifier for semantic highlighting. The numeric values are used in the encoded
+ * result of `getSemanticTokens()` (as index into a legend with the names of the members).
+ */
+export enum SemanticTokenType {
+    ParserRule,
+    LexerToken,
+    FragmentToken,
+    VirtualToken,
+    Mode,
+    Channel,
+    Label,
+    Option,
+    BuiltIn,
+    Parameter // A rule parameter, return value or local variable.
+};
+
+/**
+ * Modifiers for a semantic token, as bit flags. Again the values are used in the encoded result of
+ * `getSemanticTokens()`.
+ */
+export enum SemanticTokenModifier {
+    None = 0,
+    Definition = 1, // The name in the definition of a symbol.
+    Unused = 2,     // The definition of a symbol, which is not referenced in any of the loaded grammars.
+    Imported = 4    // A reference to a symbol defined in another grammar (import or token vocabulary).
+};
+
+/**
+ * A rule (parser rule, lexer token or fragment) in a call hierarchy.
+ */
+export class CallHierarchyItem {
+    name: string;
+    kind: SymbolKind;
+    source: string;          // The file name of the grammar containing the rule.
+    range: LexicalRange;     // The range of the entire rule.
+    nameRange: LexicalRange; // The range of the rule name.
+};
+
+/**
+ * The calls of one rule by another, as returned by `getIncomingCalls()` and `getOutgoingCalls()`.
+ */
+export class CallHierarchyCall {
+    rule: CallHierarchyItem;    // The calling rule (incoming calls) or the called rule (outgoing calls).
+    callRanges: LexicalRange[]; // The ranges of the call sites, which are always in the grammar of the calling rule.
+};
+
+/**
+ * The parameters of a rule, as returned by `getSignatureHelp()` for a position in the arguments of a reference
+ * to that rule.
+ */
+export class SignatureHelp {
+    rule: string;
+    signature: string;              // The rule name with its parameters (e.g. `expr[int precedence]`).
+    parameters: string[];           // The parameter declarations, as written in the rule definition.
+    activeParameter: number;        // The index of the parameter at the given position.
+    description: string | undefined; // The documentation of the rule.
+};
+
+/**
+ * A symbol found by `findWorkspaceSymbols()`.
+ */
+export class WorkspaceSymbol {
+    name: string;
+    kind: SymbolKind;
+    source: string;         // The grammar file, which contains the symbol definition.
+    range: LexicalRange;    // The entire definition.
+};
+
+/**
+ * The actions, which can be offered in code lenses (see `getCodeLenses()`).
+ */
+export enum CodeLensActionKind {
+    RailroadDiagram,    // Show the railroad diagram of the rule (`getRRDScript()`).
+    ATNGraph,           // Show the ATN graph of the rule (`getATNGraph()`).
+    SentenceGeneration, // Generate sentences, starting with the rule (`generateSentences()`).
+    Debug               // Start debugging with the rule as start rule (parser rules only, `createDebugger()`).
+};
+
+export class CodeLensAction {
+    kind: CodeLensActionKind;
+    title: string; // A short text to show for the action.
+};
+
+/**
+ * Information shown above a rule: the number of references to it and the actions which can be executed for it.
+ */
+export class CodeLens {
+    rule: string;
+    kind: SymbolKind;
+    range: LexicalRange;        // The entire rule.
+    referenceCount: number;     // The number of references in the rule's grammar and in grammars depending on it.
+    actions: CodeLensAction[];
+};
+
+/**
+ * A range for expanding or shrinking a selection. `parent` is the next larger range containing this one.
+ */
+export class SelectionRange {
+    range: LexicalRange;
+    parent?: SelectionRange;
+};
+
+export enum InlayHintKind {
+    TokenName,      // The name of the token a literal in a parser rule maps to.
+    ImplicitToken,  // A literal in a parser rule, for which no lexer rule exists.
+    TokenType       // The effective token type, channel and mode switches of a lexer rule with commands.
+};
+
+/**
+ * Additional information shown inline in the grammar text (see `getInlayHints()`).
+ */
+export class InlayHint {
+    position: { column: number, row: number }; // The end of the annotated literal or lexer rule name.
+    label: string;
+    kind: InlayHintKind;
+    tooltip?: string;
+};
+
+/**
+ * A single occurrence of a symbol (e.g. a reference to a rule) in a specific grammar.
+ */
+export class SymbolLocation {
+    source: string; // The file name of the grammar containing the occurrence.
+    range: LexicalRange;
+};
+
+/**
+ * A replacement of the text in the given range.
+ */
+export class TextEdit {
+    range: LexicalRange;
+    newText: string;
+};
+
+/**
+ * The outcome of a rename operation. Holds the text edits for each file which must be changed (similar to
+ * a workspace edit in vscode). If any error was found no edits are returned.
+ */
+export class RenameResult {
+    changes: Map<string, TextEdit[]>; // File name -> edits in that file.
+    errors: string[];
 };
 
 export enum DiagnosticType {
@@ -71,10 +275,114 @@ export enum DiagnosticType {
     Error
 };
 
+/**
+ * Stable identifiers for the problems found by the semantic checks. Unlike the message text they don't change and
+ * can be used to find fixes for a diagnostic (see `getCodeActions()`).
+ */
+export enum DiagnosticCode {
+    UnknownParserRule = "unknown-parser-rule",
+    UnknownToken = "unknown-token",
+    UnknownMode = "unknown-mode",
+    UnknownChannel = "unknown-channel",
+    UnknownAttribute = "unknown-attribute",
+    DuplicateSymbol = "duplicate-symbol",
+    UnusedParserRule = "unused-parser-rule",
+    UnreachableRule = "unreachable-rule",
+    UnusedFragment = "unused-fragment",
+    UnusedToken = "unused-token",
+    IndirectLeftRecursion = "indirect-left-recursion",
+    NonProductiveCycle = "non-productive-cycle",
+    ShadowedToken = "shadowed-token",
+    OverlappingTokens = "overlapping-tokens",
+    ImplicitToken = "implicit-token"
+};
+
+/**
+ * The severity of the diagnostics of a lint rule (see `LintOptions`). Diagnostics of rules which are off are not
+ * reported at all.
+ */
+export type LintSeverity = "off" | "hint" | "info" | "warning" | "error";
+
+/**
+ * The built-in lint rules, i.e. the semantic checks of a grammar, with their default severity. Each rule is identified
+ * by the code of the diagnostics it produces. More rules can be added with `registerLintRule()`.
+ */
+export const lintRules = new Map<DiagnosticCode, LintSeverity>([
+    [DiagnosticCode.UnknownParserRule, "error"],
+    [DiagnosticCode.UnknownToken, "error"],
+    [DiagnosticCode.UnknownMode, "error"],
+    [DiagnosticCode.UnknownChannel, "error"],
+    [DiagnosticCode.UnknownAttribute, "error"],
+    [DiagnosticCode.DuplicateSymbol, "error"],
+    [DiagnosticCode.UnusedParserRule, "warning"],
+    [DiagnosticCode.UnreachableRule, "warning"],
+    [DiagnosticCode.UnusedFragment, "warning"],
+    [DiagnosticCode.UnusedToken, "warning"],
+    [DiagnosticCode.IndirectLeftRecursion, "error"],
+    [DiagnosticCode.NonProductiveCycle, "error"],
+    [DiagnosticCode.ShadowedToken, "warning"],
+    [DiagnosticCode.OverlappingTokens, "info"],
+    [DiagnosticCode.ImplicitToken, "warning"]
+]);
+
+// The diagnostic type used for each severity.
+const severityTypes = new Map<LintSeverity, DiagnosticType>([
+    ["hint", DiagnosticType.Hint], ["info", DiagnosticType.Info], ["warning", DiagnosticType.Warning],
+    ["error", DiagnosticType.Error]
+]);
+
+/**
+ * A lint rule added to the built-in ones (see `registerLintRule()`).
+ */
+export interface LintRule {
+    id: string;             // Used as code of the diagnostics, in the lint options and in suppression comments.
+    severity: LintSeverity; // The default severity.
+
+    // Checks the given grammar and returns the problems found. Not called for grammars with syntax errors.
+    check: (context: SourceContext, tree: GrammarSpecContext) => LintProblem[];
+};
+
+/**
+ * A problem found by the check of a lint rule. The diagnostic code and type are taken from the rule.
+ */
+export interface LintProblem {
+    message: string;
+    range: LexicalRange;
+    related?: DiagnosticRelatedInformation[];
+};
+
+/**
+ * Options for the lint rules (see `setLintOptions()`).
+ */
+export interface LintOptions {
+    // Lint rule id (e.g. "unused-token") -> severity. Rules not listed here use their default severity.
+    rules?: { [id: string]: LintSeverity };
+}
+
+/**
+ * A location (usually in another rule or grammar) which is related to a diagnostic.
+ */
+export class DiagnosticRelatedInformation {
+    source: string; // The file name of the grammar containing the location.
+    range: LexicalRange;
+    message: string;
+};
+
 export class DiagnosticEntry {
     type: DiagnosticType;
     message: string;
     range: LexicalRange;
+    code?: string; // A `DiagnosticCode` or the id of a registered lint rule. Not set for syntax errors.
+    related?: DiagnosticRelatedInformation[];
+};
+
+/**
+ * A fix for a diagnostic, consisting of text edits in one or more grammars (see `getCodeActions()`).
+ */
+export class CodeAction {
+    title: string;
+    diagnostic: DiagnosticEntry;        // The diagnostic fixed by this action.
+    changes: Map<string, TextEdit[]>;   // File name -> edits in that file.
 };
 
 /**
@@ -248,7 +556,19 @@ export class AntlrLanguageSupport {
     // Mapping file names to SourceContext instances.
     private sourceContexts: Map<string, ContextEntry> = new Map<string, ContextEntry>();
 
-    constructor(private importDir: string) {
+    // The symbols of grammar files, which are not loaded (see `findWorkspaceSymbols()`), with their modification time.
+    private symbolIndex: Map<string, { modified: number, symbols: WorkspaceSymbol[] }> = new Map();
+
+    // Lint rules registered in addition to the built-in ones (see `registerLintRule()`).
+    private registeredLintRules: LintRule[] = [];
+
+    // Keywords of the ANTLR4 grammar language, which cannot be used as names.
+    private static reservedWords = new Set<string>([
+        "catch", "channels", "finally", "fragment", "grammar", "import", "lexer", "locals", "mode", "options",
+        "parser", "returns", "throws", "tokens"
+    ]);
+
+    constructor(private importDir: string, private lintOptions: LintOptions = {}) {
     }
 
     /**
@@ -264,7 +584,7 @@ export class AntlrLanguageSupport {
         // The given import dir is used to locate the dependency (either relative to the base path or via an absolute path).
         // If we cannot find the grammar file that way we try the base folder.
         let basePath = path.dirname(contextEntry.grammar);
-        let fullPath = path.isAbsolute(this.importDir) ? this.importDir : path.join(basePath, this.importDir);
+        let fullPath = this.importFolder(contextEntry.grammar);
         try {
             let depPath = fullPath + "/" + depName + ".g4";
             fs.accessSync(depPath, fs.constants.R_OK);
@@ -305,6 +625,198 @@ export class AntlrLanguageSupport {
         return undefined;
     }
 
+    /**
+     * Returns the import dir for the given grammar. A relative import dir is relative to the grammar's folder.
+     */
+    private importFolder(grammar: string): string {
+        return path.isAbsolute(this.importDir) ? this.importDir : path.join(path.dirname(grammar), this.importDir);
+    }
+
+    /**
+     * Returns all loaded contexts, which depend on the given one. Symbols can be used in these grammars
+     * (e.g. tokens in a parser grammar).
+     */
+    private getDependents(context: SourceContext): SourceContext[] {
+        let result: SourceContext[] = [];
+        for (let entry of this.sourceContexts.values()) {
+            if (entry.context.references.indexOf(context) > -1) {
+                result.push(entry.context);
+            }
+        }
+        return result;
+    }
+
+    /**
+     * Returns the symbols of the given (not loaded) grammar file. Files are parsed only once, unless they change.
+     */
+    private indexedSymbols(fileName: string): WorkspaceSymbol[] {
+        let modified: number;
+        try {
+            modified = fs.statSync(fileName).mtime.getTime();
+        } catch (e) {
+            return [];
+        }
+
+        let entry = this.symbolIndex.get(fileName);
+        if (!entry || entry.modified != modified) {
+            let context = new SourceContext(fileName);
+            context.setText(fs.readFileSync(fileName, "utf8"));
+            context.parse();
+            entry = { modified: modified, symbols: AntlrLanguageSupport.workspaceSymbolsFor(context) };
+            this.symbolIndex.set(fileName, entry);
+        }
+        return entry.symbols;
+    }
+
+    /**
+     * Returns the rules, tokens, modes and channels defined in the given context.
+     */
+    private static workspaceSymbolsFor(context: SourceContext): WorkspaceSymbol[] {
+        let result: WorkspaceSymbol[] = [];
+        for (let info of context.listSymbols(true)) {
+            if (info.definition && info.kind != SymbolKind.TokenVocab && info.kind != SymbolKind.Import) {
+                result.push({
+                    name: info.name, kind: info.kind, source: context.fileName, range: info.definition.range
+                });
+            }
+        }
+        return result;
+    }
+
+    /**
+     * Recursively collects all grammar files in the given folder (skipping hidden folders and node_modules).
+     */
+    private static grammarFilesIn(folder: string): string[] {
+        let result: string[] = [];
+        let entries: string[];
+        try {
+            entries = fs.readdirSync(folder).sort();
+        } catch (e) {
+            return result;
+        }
+
+        for (let entry of entries) {
+            let fullPath = path.join(folder, entry);
+            let extension = path.extname(entry);
+            if (extension == ".g4" || extension == ".g") {
+                result.push(fullPath);
+            } else if (!entry.startsWith(".") && entry != "node_modules" && fs.statSync(fullPath).isDirectory()) {
+                result.push(...AntlrLanguageSupport.grammarFilesIn(fullPath));
+            }
+        }
+        return result;
+    }
+
+    /**
+     * Determines how well the given name matches the query (case insensitive). Lower values are better:
+     * 0 = exact match, 1 = prefix, 2 = substring, 3 = all query chars appear in order. An empty query matches
+     * everything. Returns undefined if there's no match at all.
+     */
+    private static matchScore(query: string, name: string): number | undefined {
+        query = query.toLowerCase();
+        name = name.toLowerCase();
+        if (query == name) {
+            return 0;
+        }
+        if (name.startsWith(query)) {
+            return 1;
+        }
+        if (name.indexOf(query) > -1) {
+            return 2;
+        }
+
+        let position = 0;
+        for (let char of query) {
+            position = name.indexOf(char, position);
+            if (position < 0) {
+                return undefined;
+            }
+            ++position;
+        }
+        return 3;
+    }
+
+    /**
+     * Adds edits for the given ranges in the given file to the rename result, sorted by position.
+     */
+    private addRenameEdits(result: RenameResult, fileName: string, ranges: LexicalRange[], newName: string) {
+        let edits = result.changes.get(fileName);
+        if (!edits) {
+            edits = [];
+            result.changes.set(fileName, edits);
+        }
+
+        for (let range of ranges) {
+            edits.push({ range: range, newText: newName });
+        }
+        edits.sort((lhs, rhs) => {
+            if (lhs.range.start.row == rhs.range.start.row) {
+                return lhs.range.start.column - rhs.range.start.column;
+            }
+            return lhs.range.start.row - rhs.range.start.row;
+        });
+    }
+
+    /**
+     * Searches the import dir and the grammar's base folder (in this order) for the .tokens file of the given
+     * token vocabulary.
+     *
+     * @returns The path of the token file or undefined, if it cannot be found.
+     */
+    private findTokensFile(grammar: string, vocabulary: string): string | undefined {
+        let basePath = path.dirname(grammar);
+        let fullPath = this.importFolder(grammar);
+        for (let folder of [fullPath, basePath]) {
+            let tokensFile = path.join(folder, vocabulary + ".tokens");
+            if (fs.existsSync(tokensFile)) {
+                return tokensFile;
+            }
+        }
+        return undefined;
+    }
+
+    /**
+     * Collects the literals of the token vocabularies of the given grammar, which are available as .tokens file
+     * (vocabulary -> literal -> token name). They are needed to map literals to tokens if the vocabulary's grammar
+     * is not loaded.
+     */
+    private vocabularyLiterals(context: SourceContext): Map<string, Map<string, string>> {
+        let result = new Map<string, Map<string, string>>();
+        for (let vocabulary of context.tokenVocabularies) {
+            let tokensFile = this.findTokensFile(context.fileName, vocabulary);
+            if (tokensFile) {
+                result.set(vocabulary, this.readLiteralTokens(tokensFile));
+            }
+        }
+        return result;
+    }
+
+    /**
+     * Reads the given .tokens file and returns the token names for all literals in it (literal -> token name).
+     */
+    private readLiteralTokens(tokensFile: string): Map<string, string> {
+        let names = new Map<string, string>();
+        let literals: [string, string][] = [];
+        for (let line of fs.readFileSync(tokensFile, "utf8").split("\n")) {
+            let index = line.lastIndexOf("=");
+            if (index > 0) {
+                let name = line.substr(0, index);
+                let type = line.substr(index + 1).trim();
+                if (name.startsWith("'")) {
+                    literals.push([name, type]);
+                } else {
+                    names.set(type, name);
+                }
+            }
+        }
+
+        let result = new Map<string, string>();
+        for (let [literal, type] of literals) {
+            result.set(literal, names.get(type) || type);
+        }
+        return result;
+    }
+
     private parseGrammar(contextEntry: ContextEntry) {
         let oldDependencies = contextEntry.dependencies.slice();
         contextEntry.dependencies.length = 0;
@@ -413,11 +925,169 @@ export class AntlrLanguageSupport {
         return context.enclosingSymbolAtPosition(column, row, ruleScope);
     }
 
+    /**
+     * Returns all rules, tokens, modes and channels in the loaded grammars, whose name matches the given query,
+     * sorted by the quality of the match (exact, prefix, substring and fuzzy matches, in this order) and name.
+     * With `includeUnloaded` set to true also all grammar files (*.g4, *.g) in the import dir (and its subfolders)
+     * are searched, without loading them. A relative import dir is resolved against the folder of each loaded
+     * grammar (like for dependencies), so nothing is indexed if no grammar is loaded then.
+     */
+    public findWorkspaceSymbols(query: string, includeUnloaded: boolean = false): WorkspaceSymbol[] {
+        let candidates: WorkspaceSymbol[] = [];
+        let loaded = new Set<string>();
+        for (let entry of this.sourceContexts.values()) {
+            loaded.add(path.resolve(entry.context.fileName));
+            candidates.push(...AntlrLanguageSupport.workspaceSymbolsFor(entry.context));
+        }
+
+        if (includeUnloaded) {
+            let folders = new Set<string>();
+            for (let entry of this.sourceContexts.values()) {
+                folders.add(path.resolve(this.importFolder(entry.grammar)));
+            }
+            if (path.isAbsolute(this.importDir)) {
+                folders.add(this.importDir);
+            }
+
+            let indexed = new Set<string>(loaded);
+            for (let folder of folders) {
+                for (let file of AntlrLanguageSupport.grammarFilesIn(folder)) {
+                    if (!indexed.has(file)) {
+                        indexed.add(file);
+                        candidates.push(...this.indexedSymbols(file));
+                    }
+                }
+            }
+        }
+
+        let result: [number, WorkspaceSymbol][] = [];
+        for (let candidate of candidates) {
+            let score = AntlrLanguageSupport.matchScore(query, candidate.name);
+            if (score != undefined) {
+                result.push([score, candidate]);
+            }
+        }
+
+        return result.sort(([lhsScore, lhs], [rhsScore, rhs]) => {
+            if (lhsScore != rhsScore) {
+                return lhsScore - rhsScore;
+            }
+            if (lhs.name != rhs.name) {
+                return lhs.name < rhs.name ? -1 : 1;
+            }
+            return lhs.source < rhs.source ? -1 : (lhs.source > rhs.source ? 1 : 0);
+        }).map(([score, symbol]) => symbol);
+    };
+
     public listSymbols(fileName: string, fullList: boolean): SymbolInfo[] {
         let context = this.getContext(fileName);
         return context.listSymbols(!fullList);
     };
 
+    /**
+     * Returns the symbols of the given grammar as a tree, for outline views. The only top level entry represents
+     * the grammar itself.
+     */
+    public getDocumentSymbols(fileName: string): DocumentSymbol[] {
+        let context = this.getContext(fileName);
+        return context.getDocumentSymbols();
+    };
+
+    /**
+     * Returns all occurrences of the symbol at the given position within the given grammar (sorted by position),
+     * each tagged as definition or reference.
+     */
+    public getDocumentHighlights(fileName: string, column: number, row: number): DocumentHighlight[] {
+        let context = this.getContext(fileName);
+        return context.getDocumentHighlights(column, row);
+    };
+
+    /**
+     * Returns the foldable regions of the given grammar, sorted by position. Only regions spanning more than
+     * a single line are returned.
+     */
+    public getFoldingRanges(fileName: string): FoldingRange[] {
+        let context = this.getContext(fileName);
+        return context.getFoldingRanges();
+    };
+
+    /**
+     * Classifies all identifiers in the given grammar (or only those in the given range) for semantic highlighting.
+     * The result is encoded like semantic tokens in the language server protocol: 5 numbers per identifier, which
+     * are the row delta to the previous identifier, the column (relative to the previous identifier, if on the same
+     * row), the length, the type (see `SemanticTokenType`) and the modifiers (see `SemanticTokenModifier`).
+     */
+    public getSemanticTokens(fileName: string, range?: LexicalRange): number[] {
+        let context = this.getContext(fileName);
+        return context.getSemanticTokens(this.getDependents(context), range);
+    };
+
+    /**
+     * Returns a code lens for each parser and lexer rule in the given file, with the number of references to
+     * the rule (in this grammar and all loaded grammars depending on it) and the actions a host can offer for it.
+     */
+    public getCodeLenses(fileName: string): CodeLens[] {
+        let context = this.getContext(fileName);
+        return context.getCodeLenses(this.getDependents(context));
+    };
+
+    /**
+     * Returns all rules which call (reference) the given rule, together with the call sites, collected from all
+     * loaded grammars. The rule is resolved in the given file, so it can also be defined in an imported grammar.
+     */
+    public getIncomingCalls(fileName: string, rule: string): CallHierarchyCall[] {
+        let context = this.getContext(fileName);
+        let definition = context.resolveSymbol(rule);
+        if (!definition) {
+            return [];
+        }
+
+        let result: CallHierarchyCall[] = [];
+        for (let entry of this.sourceContexts.values()) {
+            if (entry.context.resolveSymbol(rule) === definition) {
+                result.push(...entry.context.getIncomingCalls(definition));
+            }
+        }
+        return result;
+    };
+
+    /**
+     * Returns all rules called (referenced) by the given rule in the given file, together with the call sites,
+     * in the order of their first call. Called rules can be defined in other grammars (imports, token vocabularies).
+     */
+    public getOutgoingCalls(fileName: string, rule: string): CallHierarchyCall[] {
+        let context = this.getContext(fileName);
+        return context.getOutgoingCalls(rule);
+    };
+
+    /**
+     * Returns one chain of nested ranges for each of the given positions (innermost first), following the grammar
+     * structure from the token at the position up to the entire grammar. Used for smart expand/shrink selection.
+     */
+    public getSelectionRanges(fileName: string, positions: { column: number, row: number }[]): SelectionRange[] {
+        let context = this.getContext(fileName);
+        return context.getSelectionRanges(positions);
+    };
+
+    /**
+     * Returns inlay hints for all literals in parser rules (the name of the token they map to) and for lexer rules
+     * with lexer commands (their effective token type, channel and mode switches), optionally limited to the given
+     * range.
+     */
+    public getInlayHints(fileName: string, range?: LexicalRange): InlayHint[] {
+        let context = this.getContext(fileName);
+        return context.getInlayHints(this.vocabularyLiterals(context), range);
+    };
+
+    /**
+     * Returns the parameters of the referenced rule, if the given position is within the arguments of
+     * a rule reference (e.g. `expr[5]`).
+     */
+    public getSignatureHelp(fileName: string, column: number, row: number): SignatureHelp | undefined {
+        let context = this.getContext(fileName);
+        return context.getSignatureHelp(column, row);
+    };
+
     public getCodeCompletionCandidates(fileName: string, column: number, row: number): SymbolInfo[] {
         let context = this.getContext(fileName);
         return context.getCodeCompletionCandidates(column, row);
@@ -425,7 +1095,71 @@ export class AntlrLanguageSupport {
 
     public getDiagnostics(fileName: string): DiagnosticEntry[] {
         let context = this.getContext(fileName);
-        return context.getDiagnostics();
+        let entries = context.getDiagnostics(this.getDependents(context), this.vocabularyLiterals(context),
+            this.registeredLintRules);
+
+        // Apply the configured severities and remove diagnostics which are turned off or suppressed by comments.
+        let severities = this.lintOptions.rules || {};
+        let result: DiagnosticEntry[] = [];
+        for (let entry of entries) {
+            let severity = entry.code ? severities[entry.code] || this.defaultSeverity(entry.code) : undefined;
+            if (!severity) {
+                result.push(entry); // Syntax errors and problems reported by ANTLR.
+            } else if (severity != "off" && !context.isSuppressed(entry.code!, entry.range.start.row)) {
+                let type = severityTypes.get(severity);
+                result.push(type == undefined || type == entry.type ? entry : Object.assign({}, entry, { type: type }));
+            }
+        }
+        return result;
+    };
+
+    /**
+     * Sets the rules from which all other parser rules of the given grammar must be reachable (see
+     * `getDiagnostics()`). Rules which don't exist in the grammar are ignored. Without any (existing) entry rule
+     * the first parser rule is used.
+     */
+    public setEntryRules(fileName: string, rules: string[]) {
+        let context = this.getContext(fileName);
+        context.entryRules = rules;
+    };
+
+    /**
+     * Sets the severities of the lint rules for all grammars (see `getDiagnostics()`). Unknown rule ids are ignored.
+     */
+    public setLintOptions(options: LintOptions) {
+        this.lintOptions = options;
+    };
+
+    /**
+     * Adds a lint rule, whose check is run by `getDiagnostics()` for all grammars without syntax errors. Its problems
+     * are reported with the rule id as code and can be configured and suppressed like those of the built-in rules.
+     *
+     * @returns False (and the rule is not added) if the id is already used by another rule, otherwise true.
+     */
+    public registerLintRule(rule: LintRule): boolean {
+        if (this.defaultSeverity(rule.id)) {
+            return false;
+        }
+        this.registeredLintRules.push(rule);
+        return true;
+    };
+
+    /**
+     * Returns the default severity of the built-in or registered lint rule with the given id, if there is one.
+     */
+    private defaultSeverity(id: string): LintSeverity | undefined {
+        let rule = this.registeredLintRules.find(rule => rule.id == id);
+        return rule ? rule.severity : lintRules.get(id as DiagnosticCode);
+    }
+
+    /**
+     * Returns fixes for those of the given diagnostics (as returned by `getDiagnostics()`), which overlap the given
+     * range: creating a missing parser rule or lexer token, adding a missing mode, declaring a missing channel
+     * or removing a duplicate rule.
+     */
+    public getCodeActions(fileName: string, range: LexicalRange, diagnostics: DiagnosticEntry[]): CodeAction[] {
+        let context = this.getContext(fileName);
+        return context.getCodeActions(range, diagnostics);
     };
 
     public ruleFromPosition(fileName: string, column: number, row: number): [string | undefined, number | undefined ]{
@@ -445,6 +1179,168 @@ export class AntlrLanguageSupport {
         return result;
     }
 
+    /**
+     * Returns the locations of all references to the symbol at the given position, collected from all loaded grammars.
+     * The position can be either on a reference or on the definition of the symbol. For labels and rule variables
+     * (parameters, return values and locals) only the rule containing them is searched.
+     */
+    public getReferences(fileName: string, column: number, row: number): SymbolLocation[] {
+        let context = this.getContext(fileName);
+        let symbol = context.symbolFromPosition(column, row);
+        if (!symbol) {
+            return [];
+        }
+
+        if (symbol instanceof VariableSymbol) {
+            // Labels and rule variables are local to the rule in which they are defined, so only this file
+            // is involved. Their definitions are the highlights of kind Definition.
+            return context.getDocumentHighlights(column, row)
+                .filter(highlight => highlight.kind === DocumentHighlightKind.Reference)
+                .map(highlight => ({ source: fileName, range: highlight.range }));
+        }
+        return this.getReferencesForSymbol(fileName, symbol.name);
+    }
+
+    /**
+     * Returns the locations of all references to the given symbol, collected from all loaded grammars.
+     * The symbol is resolved in the given file. References from other grammars are only included if they resolve
+     * to the same symbol (e.g. via an import or token vocabulary).
+     */
+    public getReferencesForSymbol(fileName: string, symbol: string): SymbolLocation[] {
+        let context = this.getContext(fileName);
+        let definition = context.resolveSymbol(symbol);
+        if (!definition) {
+            return [];
+        }
+
+        let result: SymbolLocation[] = [];
+        for (let entry of this.sourceContexts.values()) {
+            if (entry.context.resolveSymbol(symbol) === definition) {
+                result.push(...entry.context.getReferenceLocations(symbol));
+            }
+        }
+        return result;
+    }
+
+    /**
+     * Computes the text edits required to rename the symbol at the given position in all loaded grammars.
+     * Supported are rules, tokens, modes, channels, labels and alternative labels. The new name is checked
+     * for validity (e.g. token names must start with an uppercase letter) and for conflicts with existing symbols.
+     */
+    public renameSymbol(fileName: string, column: number, row: number, newName: string): RenameResult {
+        let result: RenameResult = { changes: new Map(), errors: [] };
+        let context = this.getContext(fileName);
+
+        if (!/^[a-zA-Z][a-zA-Z0-9_]*$/.test(newName) || AntlrLanguageSupport.reservedWords.has(newName)) {
+            result.errors.push("'" + newName + "' is not a valid identifier");
+            return result;
+        }
+
+        let alternativeLabel = context.alternativeLabelFromPosition(column, row);
+        if (alternativeLabel) {
+            if (context.resolveSymbol(newName) instanceof RuleSymbol) {
+                result.errors.push("The alternative label '" + newName + "' conflicts with a parser rule");
+            } else if (alternativeLabel !== newName) {
+                this.addRenameEdits(result, fileName, context.getAlternativeLabelOccurrences(alternativeLabel), newName);
+            }
+            return result;
+        }
+
+        let symbol = context.symbolFromPosition(column, row);
+        if (!symbol) {
+            result.errors.push("There is no symbol at the given position");
+            return result;
+        }
+
+        if (!(symbol instanceof RuleSymbol || symbol instanceof TokenSymbol || symbol instanceof FragmentTokenSymbol
+            || symbol instanceof VirtualTokenSymbol || symbol instanceof LexerModeSymbol
+            || symbol instanceof TokenChannelSymbol || symbol instanceof VariableSymbol)
+            || !(symbol.symbolTable as GrapsSymbolTable).owner) {
+            result.errors.push("The symbol '" + symbol.name + "' cannot be renamed");
+            return result;
+        }
+
+        if (symbol instanceof RuleSymbol && !/^[a-z]/.test(newName)) {
+            result.errors.push("Parser rule names must start with a lowercase letter");
+            return result;
+        }
+
+        if ((symbol instanceof TokenSymbol || symbol instanceof FragmentTokenSymbol
+            || symbol instanceof VirtualTokenSymbol) && !/^[A-Z]/.test(newName)) {
+            result.errors.push("Token names must start with an uppercase letter");
+            return result;
+        }
+
+        if (symbol.name === newName) {
+            return result;
+        }
+
+        if (symbol instanceof VariableSymbol) {
+            // Labels and rule variables are local to the rule in which they are defined, so only a single file
+            // is involved.
+            if (context.resolveSymbol(newName) || context.resolveLocalSymbol(symbol.context!, newName)) {
+                let what = symbol instanceof RuleVariableSymbol ? "variable" : "label";
+                result.errors.push("The " + what + " '" + newName + "' conflicts with an existing symbol");
+            } else {
+                this.addRenameEdits(result, fileName, context.getSymbolOccurrences(symbol), newName);
+            }
+            return result;
+        }
+
+        for (let entry of this.sourceContexts.values()) {
+            let ranges = entry.context.getSymbolOccurrences(symbol);
+            if (ranges.length > 0) {
+                if (entry.context.resolveSymbol(newName)) {
+                    result.errors.push("The name '" + newName + "' conflicts with an existing symbol in "
+                        + entry.context.fileName);
+                } else {
+                    this.addRenameEdits(result, entry.context.fileName, ranges, newName);
+                }
+            }
+        }
+
+        if (result.errors.length > 0) {
+            result.changes.clear();
+        }
+
+        return result;
+    }
+
+    /**
+     * Returns the location of the definition of the symbol at the given position. If the symbol cannot be found
+     * in any of the loaded grammars, the compiled token vocabularies (.tokens files) of the grammar are searched.
+     */
+    public getDefinition(fileName: string, column: number, row: number): SymbolLocation | undefined {
+        let context = this.getContext(fileName);
+        let result = context.getDefinition(column, row);
+        if (result) {
+            return result;
+        }
+
+        let name = context.identifierAtPosition(column, row);
+        if (!name) {
+            return undefined;
+        }
+
+        // Not found in a grammar source. Try the token vocabulary files, if there are any.
+        for (let vocabulary of context.tokenVocabularies) {
+            let tokensFile = this.findTokensFile(fileName, vocabulary);
+            if (tokensFile) {
+                let lines = fs.readFileSync(tokensFile, "utf8").split("\n");
+                for (let i = 0; i < lines.length; ++i) {
+                    if (lines[i].startsWith(name + "=")) {
+                        return {
+                            source: tokensFile,
+                            range: { start: { column: 0, row: i + 1 }, end: { column: name.length, row: i + 1 } }
+                        };
+                    }
+                }
+            }
+        }
+
+        return undefined;
+    }
+
     public getDependencies(fileName: string): string[] {
         let entry = this.sourceContexts.get(fileName);
         if (!entry) {
@@ -460,6 +1356,29 @@ export class AntlrLanguageSupport {
         return result;
     }
 
+    /**
+     * Returns the names of all loaded grammars, which depend directly or indirectly on the given grammar (e.g. via
+     * an import or a token vocabulary). These must be checked again when the given grammar changes.
+     */
+    public getDependentGrammars(fileName: string): string[] {
+        let entry = this.sourceContexts.get(fileName);
+        if (!entry) {
+            return [];
+        }
+
+        let dependents: SourceContext[] = [];
+        let pending = [entry.context];
+        while (pending.length > 0) {
+            for (let dependent of this.getDependents(pending.shift()!)) {
+                if (dependent !== entry.context && dependents.indexOf(dependent) == -1) {
+                    dependents.push(dependent);
+                    pending.push(dependent);
+                }
+            }
+        }
+        return dependents.map(dependent => dependent.fileName);
+    }
+
     public getReferenceGraph(fileName: string): Map<string, ReferenceNode> {
         let context = this.getContext(fileName);
         return context.getReferenceGraph();
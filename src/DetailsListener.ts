@@ -12,14 +12,17 @@ import {
     LexerRuleSpecContext, ParserRuleSpecContext, TokensSpecContext, ChannelsSpecContext,
     ModeSpecContext, DelegateGrammarContext, OptionContext, TerminalRuleContext, RulerefContext,
     OptionValueContext, BlockContext, AlternativeContext, RuleBlockContext, EbnfSuffixContext,
-    OptionsSpecContext, ActionBlockContext, ArgActionBlockContext, LabeledAltContext, LabeledElementContext
+    OptionsSpecContext, ActionBlockContext, ArgActionBlockContext, LabeledAltContext, LabeledElementContext,
+    RuleReturnsContext, LocalsSpecContext
 } from '../parser/ANTLRv4Parser';
 
 import { SymbolKind } from '../index';
 import {
     GrapsSymbolTable, FragmentTokenSymbol, TokenSymbol, TokenReferenceSymbol, RuleSymbol, RuleReferenceSymbol,
     VirtualTokenSymbol, TokenChannelSymbol, LexerModeSymbol, ImportSymbol, TokenVocabSymbol, definitionForContext,
-    AlternativeSymbol, EbnfSuffixSymbol, OptionsSymbol, ActionSymbol, ArgumentSymbol, OperatorSymbol
+    AlternativeSymbol, EbnfSuffixSymbol, OptionsSymbol, ActionSymbol, ArgumentSymbol, OperatorSymbol,
+    RuleVariableSymbol, ParameterSymbol, ReturnValueSymbol, LocalVariableSymbol, variableDeclarationsFromContext,
+    typeFromName
 } from './GrapsSymbolTable';
 
 import { ScopedSymbol, LiteralSymbol, BlockSymbol, Symbol, VariableSymbol } from "antlr4-c3";
@@ -95,7 +98,7 @@ export class DetailsListener implements ANTLRv4ParserListener {
         if (idList) {
             for (let identifier of idList.identifier()) {
                 let symbol = this.symbolTable.addNewSymbolOfType(VirtualTokenSymbol, undefined, identifier.text);
-                symbol.context = ctx;
+                symbol.context = identifier;
             }
         }
     }
@@ -138,7 +141,7 @@ export class DetailsListener implements ANTLRv4ParserListener {
         if (idList) {
             for (let identifier of idList.identifier()) {
                 let symbol = this.symbolTable.addNewSymbolOfType(TokenChannelSymbol, undefined, identifier.text);
-                symbol.context = ctx;
+                symbol.context = identifier;
             }
         }
     }
@@ -188,6 +191,26 @@ export class DetailsListener implements ANTLRv4ParserListener {
         let symbol = this.symbolTable.addNewSymbolOfType(ArgumentSymbol, this.currentSymbol as ScopedSymbol,
             "argument");
         symbol.context = ctx;
+
+        // Parameters, return values and locals of a parser rule are also added as variables to the rule.
+        let type: typeof RuleVariableSymbol | undefined;
+        if (ctx.parent instanceof ParserRuleSpecContext) {
+            type = ParameterSymbol;
+        } else if (ctx.parent instanceof RuleReturnsContext) {
+            type = ReturnValueSymbol;
+        } else if (ctx.parent instanceof LocalsSpecContext) {
+            type = LocalVariableSymbol;
+        }
+
+        if (type && this.currentSymbol instanceof RuleSymbol) {
+            for (let declaration of variableDeclarationsFromContext(ctx)) {
+                let variable = this.symbolTable.addNewSymbolOfType(type, this.currentSymbol, declaration.name,
+                    declaration.value, typeFromName(declaration.type));
+                variable.context = ctx;
+                variable.definition = declaration.definition;
+                variable.nameRange = declaration.nameRange;
+            }
+        }
     }
 
     enterLabeledElement(ctx: LabeledElementContext) {
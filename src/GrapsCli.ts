@@ -0,0 +1,343 @@
+#!/usr/bin/env node
+
+/*
+ * This file is released under the MIT license.
+ * Copyright (c) 2018, Mike Lischke
+ *
+ * See LICENSE file for more info.
+ */
+
+"use strict";
+
+import * as fs from "fs";
+
+import {
+    AntlrLanguageSupport, DiagnosticType, SentenceGenerationOptions, LintSeverity, lintRules, DiagnosticCode
+} from "../index";
+
+const usage = `Usage: graps [--import-dir <dir>] <command> [options] <arguments>
+
+Commands:
+  lint [--rule <id>=<severity>]... <grammar>...
+                                   Print diagnostics for the given grammars. Fails if there are errors.
+                                   --rule sets the severity of a lint rule (off, hint, info, warning or error).
+  format [--in-place | --check] <grammar>...
+                                   Print the formatted grammar, write it back to the file (--in-place)
+                                   or fail if the file is not formatted (--check).
+  rrd <grammar> <rule>             Print the railroad diagram script for the given rule.
+  atn [--data-dir <dir>] [--generate] <grammar> <rule>
+                                   Print the ATN graph of the given rule as JSON.
+  sentences [--data-dir <dir>] [--generate] [--count <n>] [--all-paths] [--max-iterations <n>]
+            [--max-recursions <n>] [--min-token-length <n>] [--max-token-length <n>]
+            [--define <rule>=<text>]... <grammar> <rule>
+                                   Print sentences generated from the given start rule.
+
+The atn and sentences commands need interpreter data, which is loaded from the data dir (default: the grammar's
+folder). With --generate the ANTLR tool is run first (requires Java) to create that data in the data dir.
+`;
+
+/**
+ * Holds the options and positional arguments of a command line.
+ */
+interface ParsedArguments {
+    options: Map<string, string[]>; // Option name (without dashes) -> values (empty strings for flags).
+    positional: string[];
+};
+
+/**
+ * Thrown for invalid command lines. Results in a usage message and exit code 2.
+ */
+class UsageError extends Error { };
+
+/**
+ * The implementation of the `graps` command line tool. All output goes to the given streams and `run()` returns
+ * the exit code (0 = success, 1 = failed checks or command, 2 = invalid command line), which makes it possible
+ * to use the tool also from code.
+ */
+export class GrapsCli {
+    constructor(private out: NodeJS.WritableStream = process.stdout, private err: NodeJS.WritableStream = process.stderr) { }
+
+    public async run(args: string[]): Promise<number> {
+        try {
+            let importDir = ".";
+            while (args.length > 0 && args[0].startsWith("--")) {
+                let [name, value] = this.splitOption(args, 0);
+                if (name == "help") {
+                    this.out.write(usage);
+                    return 0;
+                }
+                if (name != "import-dir" || value == undefined) {
+                    throw new UsageError("Invalid option: " + args[0]);
+                }
+                args = args.slice(args[0].indexOf("=") > -1 ? 1 : 2);
+                importDir = value;
+            }
+
+            if (args.length == 0) {
+                throw new UsageError("No command given");
+            }
+
+            this.backend = new AntlrLanguageSupport(importDir);
+            let command = args[0];
+            switch (command) {
+                case "lint": {
+                    let parsed = this.parseArguments(args.slice(1), ["rule"], []);
+                    return this.lint(this.requirePositional(parsed, 1, Infinity), parsed.options.get("rule") || []);
+                }
+
+                case "format": {
+                    let parsed = this.parseArguments(args.slice(1), [], ["in-place", "check"]);
+                    if (parsed.options.has("in-place") && parsed.options.has("check")) {
+                        throw new UsageError("--in-place and --check cannot be used together");
+                    }
+                    return this.format(this.requirePositional(parsed, 1, Infinity), parsed.options.has("in-place"),
+                        parsed.options.has("check"));
+                }
+
+                case "rrd": {
+                    let parsed = this.parseArguments(args.slice(1), [], []);
+                    let [grammar, rule] = this.requirePositional(parsed, 2, 2);
+                    return this.rrd(grammar, rule);
+                }
+
+                case "atn": {
+                    let parsed = this.parseArguments(args.slice(1), ["data-dir"], ["generate"]);
+                    let [grammar, rule] = this.requirePositional(parsed, 2, 2);
+                    return await this.atn(grammar, rule, this.lastValue(parsed, "data-dir"),
+                        parsed.options.has("generate"));
+                }
+
+                case "sentences": {
+                    let parsed = this.parseArguments(args.slice(1), ["data-dir", "count", "max-iterations",
+                        "max-recursions", "min-token-length", "max-token-length", "define"], ["generate", "all-paths"]);
+                    let [grammar, rule] = this.requirePositional(parsed, 2, 2);
+                    return await this.sentences(grammar, rule, parsed);
+                }
+
+                default:
+                    throw new UsageError("Unknown command: " + command);
+            }
+        } catch (e) {
+            if (e instanceof UsageError) {
+                this.err.write(e.message + "\n\n" + usage);
+                return 2;
+            }
+
+            this.err.write((e instanceof Error ? e.message : String(e)) + "\n");
+            return 1;
+        }
+    }
+
+    private lint(grammars: string[], rules: string[]): number {
+        let severities: { [id: string]: LintSeverity } = {};
+        for (let rule of rules) {
+            let [id, severity] = rule.split("=");
+            if (!lintRules.has(id as DiagnosticCode)) {
+                throw new UsageError("Unknown lint rule: " + id);
+            }
+            if (["off", "hint", "info", "warning", "error"].indexOf(severity) == -1) {
+                throw new UsageError("Invalid severity for lint rule " + id + ": " + severity);
+            }
+            severities[id] = severity as LintSeverity;
+        }
+        this.backend.setLintOptions({ rules: severities });
+
+        let errorCount = 0;
+        for (let grammar of grammars) {
+            this.loadGrammar(grammar);
+            for (let entry of this.backend.getDiagnostics(grammar)) {
+                if (entry.type == DiagnosticType.Error) {
+                    ++errorCount;
+                }
+                this.out.write(grammar + ":" + entry.range.start.row + ":" + (entry.range.start.column + 1) + ": "
+                    + DiagnosticType[entry.type].toLowerCase() + ": " + entry.message + "\n");
+                for (let related of entry.related || []) {
+                    this.out.write(related.source + ":" + related.range.start.row + ":"
+                        + (related.range.start.column + 1) + ": note: " + related.message + "\n");
+                }
+            }
+        }
+        return errorCount > 0 ? 1 : 0;
+    }
+
+    private format(grammars: string[], inPlace: boolean, check: boolean): number {
+        let result = 0;
+        for (let grammar of grammars) {
+            let source = this.loadGrammar(grammar);
+            let [text] = this.backend.formatGrammar(grammar, {}, 0, 1e10);
+            if (check) {
+                if (text !== source) {
+                    this.out.write(grammar + " is not formatted\n");
+                    result = 1;
+                }
+            } else if (inPlace) {
+                if (text !== source) {
+                    fs.writeFileSync(grammar, text, "utf8");
+                }
+            } else {
+                this.out.write(text);
+            }
+        }
+        return result;
+    }
+
+    private rrd(grammar: string, rule: string): number {
+        this.loadGrammar(grammar);
+        let script = this.backend.getRRDScript(grammar, rule);
+        if (!script) {
+            this.err.write("Unknown rule: " + rule + "\n");
+            return 1;
+        }
+        this.out.write(script + "\n");
+        return 0;
+    }
+
+    private async atn(grammar: string, rule: string, dataDir: string | undefined, generate: boolean): Promise<number> {
+        this.loadGrammar(grammar);
+        await this.backend.generate(grammar, { outputDir: dataDir, loadOnly: !generate });
+
+        let graph = this.backend.getATNGraph(grammar, rule);
+        if (!graph) {
+            this.err.write("Cannot create the ATN graph for rule " + rule
+                + " (unknown rule or no interpreter data found)\n");
+            return 1;
+        }
+        this.out.write(JSON.stringify(graph, null, 2) + "\n");
+        return 0;
+    }
+
+    private async sentences(grammar: string, rule: string, parsed: ParsedArguments): Promise<number> {
+        this.loadGrammar(grammar);
+        await this.backend.generate(grammar, {
+            outputDir: this.lastValue(parsed, "data-dir"),
+            loadOnly: !parsed.options.has("generate")
+        });
+
+        let options: SentenceGenerationOptions = {
+            startRule: rule,
+            allPaths: parsed.options.has("all-paths"),
+            maxIterations: this.numberValue(parsed, "max-iterations"),
+            maxRecursions: this.numberValue(parsed, "max-recursions"),
+            minTokenLength: this.numberValue(parsed, "min-token-length"),
+            maxTokenLength: this.numberValue(parsed, "max-token-length")
+        };
+
+        let definitions = new Map<string, string>();
+        for (let definition of parsed.options.get("define") || []) {
+            let index = definition.indexOf("=");
+            if (index < 1) {
+                throw new UsageError("Invalid definition: " + definition);
+            }
+            definitions.set(definition.substr(0, index), definition.substr(index + 1));
+        }
+
+        let count = this.numberValue(parsed, "count") || 1;
+        for (let i = 0; i < count; ++i) {
+            let sentences = this.backend.generateSentences(grammar, options, definitions);
+            if (sentences.length == 0) {
+                this.err.write("Cannot generate sentences for rule " + rule
+                    + " (unknown rule or no interpreter data found)\n");
+                return 1;
+            }
+
+            for (let sentence of sentences) {
+                this.out.write(sentence + "\n");
+            }
+        }
+        return 0;
+    }
+
+    /**
+     * Loads the given grammar (and its dependencies) and returns its source text.
+     */
+    private loadGrammar(grammar: string): string {
+        if (!fs.existsSync(grammar)) {
+            throw new Error("Cannot find grammar " + grammar);
+        }
+        let source = fs.readFileSync(grammar, "utf8");
+        this.backend.loadGrammar(grammar, source);
+        return source;
+    }
+
+    /**
+     * Splits an option given as `--name=value` or `--name value` (in which case the value is the next argument,
+     * if that is not an option itself).
+     */
+    private splitOption(args: string[], index: number): [string, string | undefined] {
+        let option = args[index].substr(2);
+        let equalSign = option.indexOf("=");
+        if (equalSign > -1) {
+            return [option.substr(0, equalSign), option.substr(equalSign + 1)];
+        }
+
+        let next = args[index + 1];
+        return [option, next != undefined && !next.startsWith("--") ? next : undefined];
+    }
+
+    private parseArguments(args: string[], valueOptions: string[], flags: string[]): ParsedArguments {
+        let result: ParsedArguments = { options: new Map(), positional: [] };
+        for (let i = 0; i < args.length; ++i) {
+            if (!args[i].startsWith("--")) {
+                result.positional.push(args[i]);
+                continue;
+            }
+
+            let [name, value] = this.splitOption(args, i);
+            let values = result.options.get(name) || [];
+            if (flags.indexOf(name) > -1) {
+                if (args[i].indexOf("=") > -1) {
+                    throw new UsageError("The option --" + name + " takes no value");
+                }
+                values.push("");
+            } else if (valueOptions.indexOf(name) > -1) {
+                if (value == undefined) {
+                    throw new UsageError("Missing value for option --" + name);
+                }
+                if (args[i].indexOf("=") == -1) {
+                    ++i;
+                }
+                values.push(value);
+            } else {
+                throw new UsageError("Invalid option: " + args[i]);
+            }
+            result.options.set(name, values);
+        }
+        return result;
+    }
+
+    private requirePositional(parsed: ParsedArguments, min: number, max: number): string[] {
+        if (parsed.positional.length < min) {
+            throw new UsageError("Missing arguments");
+        }
+        if (parsed.positional.length > max) {
+            throw new UsageError("Too many arguments");
+        }
+        return parsed.positional;
+    }
+
+    private lastValue(parsed: ParsedArguments, name: string): string | undefined {
+        let values = parsed.options.get(name);
+        return values ? values[values.length - 1] : undefined;
+    }
+
+    private numberValue(parsed: ParsedArguments, name: string): number | undefined {
+        let value = this.lastValue(parsed, name);
+        if (value == undefined) {
+            return undefined;
+        }
+
+        let result = parseInt(value, 10);
+        if (isNaN(result) || result < 0) {
+            throw new UsageError("Invalid number for option --" + name + ": " + value);
+        }
+        return result;
+    }
+
+    private backend: AntlrLanguageSupport;
+};
+
+if (require.main === module) {
+    new GrapsCli().run(process.argv.slice(2)).then(code => {
+        process.exitCode = code;
+    });
+}
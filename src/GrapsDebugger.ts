@@ -409,7 +409,11 @@ export class GrapsDebugger extends EventEmitter {
         // from the rule's block, instead its sibling (which is another rule).
         let next: Symbol | undefined;
         if (start instanceof RuleSymbol) {
-            next = start.children[0]; // 2 children in a rule: the rule block and the semicolon.
+            // Arguments, return values, locals and rule actions can precede the rule block.
+            next = start.children.find(child => child instanceof BlockSymbol);
+            if (!next) {
+                return result;
+            }
         } else {
             // Any other case. Continue with the next directly following symbol.
             next = start.nextSibling;
@@ -7,13 +7,18 @@
 
 "use strict";
 
-import { ParserRuleContext, CharStream } from 'antlr4ts';
+import { ParserRuleContext, CharStream, Token } from 'antlr4ts';
 import { Interval } from 'antlr4ts/misc';
-import { SymbolTable, Symbol, ScopedSymbol, SymbolTableOptions } from "antlr4-c3";
+import {
+    SymbolTable, Symbol, ScopedSymbol, SymbolTableOptions, VariableSymbol, FundamentalType, TypeKind, ReferenceKind
+} from "antlr4-c3";
 
-import { SymbolKind, SymbolGroupKind, SymbolInfo, Definition } from '../index';
+import { SymbolKind, SymbolGroupKind, SymbolInfo, Definition, LexicalRange } from '../index';
 import { SourceContext } from './SourceContext';
-import { ANTLRv4Parser, ModeSpecContext, GrammarSpecContext } from '../parser/ANTLRv4Parser';
+import {
+    ANTLRv4Parser, ModeSpecContext, GrammarSpecContext, ParserRuleSpecContext, LexerRuleSpecContext, IdentifierContext,
+    LabeledElementContext, DelegateGrammarContext, OptionContext, ArgActionBlockContext
+} from '../parser/ANTLRv4Parser';
 import { ParseTree, TerminalNode } from 'antlr4ts/tree';
 
 type SymbolStore = Map<SymbolKind, Map<string, ParserRuleContext | undefined>>;
@@ -35,6 +40,7 @@ export class GrapsSymbolTable extends SymbolTable {
             }
         }
         this.symbolReferences.clear();
+        this.referenceRanges.clear();
         super.clear();
     }
 
@@ -157,8 +163,9 @@ export class GrapsSymbolTable extends SymbolTable {
             kind: kind,
             name: symbol.name,
             source: (symbol.context && symbolTable && symbolTable.owner) ? symbolTable.owner.fileName : "ANTLR runtime",
-            definition: definitionForContext(symbol.context, true),
-            description: undefined
+            definition: symbol instanceof RuleVariableSymbol ? symbol.definition : definitionForContext(symbol.context, true),
+            description: (symbolTable && symbolTable.owner) ? symbolTable.owner.documentationForSymbol(symbol) : undefined,
+            signature: signatureForContext(symbol.context)
         };
 
     }
@@ -174,7 +181,8 @@ export class GrapsSymbolTable extends SymbolTable {
                 name: symbol.name,
                 source: root.owner ? root.owner.fileName : "ANTLR runtime",
                 definition: definitionForContext(symbol.context, true),
-                description: undefined
+                description: root.owner ? root.owner.documentationForSymbol(symbol) : undefined,
+                signature: signatureForContext(symbol.context)
             });
         }
         return result;
@@ -198,6 +206,19 @@ export class GrapsSymbolTable extends SymbolTable {
         return result;
     }
 
+    /**
+     * Returns the owning context of a dependency (e.g. an imported grammar) with the given name, if that is loaded.
+     */
+    public getDependencyOwner(name: string): SourceContext | undefined {
+        for (let dependency of this.dependencies) {
+            let owner = (dependency as GrapsSymbolTable).owner;
+            if (owner && owner.sourceId === name) {
+                return owner;
+            }
+        }
+        return undefined;
+    }
+
     public getReferenceCount(symbol: string): number {
         let reference = this.symbolReferences.get(symbol);
         if (reference) {
@@ -217,13 +238,28 @@ export class GrapsSymbolTable extends SymbolTable {
         return result;
     }
 
-    public countReference(symbol: string) {
+    /**
+     * Returns the ranges of all references to the given symbol, which were collected by the last semantic analysis.
+     */
+    public getReferenceRanges(symbol: string): LexicalRange[] {
+        let ranges = this.referenceRanges.get(symbol);
+        return ranges ? ranges : [];
+    }
+
+    public countReference(symbol: string, token: Token) {
         let reference = this.symbolReferences.get(symbol);
         if (reference) {
             this.symbolReferences.set(symbol, reference + 1);
         } else {
             this.symbolReferences.set(symbol, 1);
         }
+
+        let ranges = this.referenceRanges.get(symbol);
+        if (!ranges) {
+            ranges = [];
+            this.referenceRanges.set(symbol, ranges);
+        }
+        ranges.push(rangeFromToken(token));
     }
 
     private getSymbolOfType(name: string, kind: SymbolKind, localOnly: boolean): Symbol | undefined {
@@ -255,7 +291,7 @@ export class GrapsSymbolTable extends SymbolTable {
         return undefined;
     }
 
-    private getKindFromSymbol(symbol: Symbol): SymbolKind {
+    public getKindFromSymbol(symbol: Symbol): SymbolKind {
         if (symbol instanceof TokenVocabSymbol) {
             return SymbolKind.TokenVocab;
         }
@@ -286,10 +322,23 @@ export class GrapsSymbolTable extends SymbolTable {
         if (symbol instanceof TokenChannelSymbol) {
             return SymbolKind.TokenChannel;
         }
+        if (symbol instanceof ParameterSymbol) {
+            return SymbolKind.RuleParameter;
+        }
+        if (symbol instanceof ReturnValueSymbol) {
+            return SymbolKind.RuleReturnValue;
+        }
+        if (symbol instanceof LocalVariableSymbol) {
+            return SymbolKind.RuleLocalVariable;
+        }
+        if (symbol instanceof VariableSymbol) {
+            return SymbolKind.ElementLabel;
+        }
         return SymbolKind.ParserRule;
     }
 
     private symbolReferences: Map<string, number> = new Map();
+    private referenceRanges: Map<string, LexicalRange[]> = new Map();
 };
 
 /**
@@ -355,6 +404,323 @@ export function definitionForContext(ctx: ParseTree | undefined, keepQuotes: boo
     return result;
 }
 
+/**
+ * Returns the range covered by the given token. The end column is exclusive.
+ */
+export function rangeFromToken(token: Token): LexicalRange {
+    let lines = (token.text || "").split("\n");
+    if (lines.length > 1 && token.type != Token.EOF) {
+        // Tokens spanning multiple lines (e.g. block comments or actions).
+        return {
+            start: { column: token.charPositionInLine, row: token.line },
+            end: { column: lines[lines.length - 1].length, row: token.line + lines.length - 1 }
+        };
+    }
+
+    return {
+        start: { column: token.charPositionInLine, row: token.line },
+        end: { column: token.charPositionInLine + token.stopIndex - token.startIndex + 1, row: token.line }
+    };
+}
+
+/**
+ * Returns the range covered by the given context, from the start of its first token to the end of its last token
+ * (exclusive).
+ */
+export function rangeFromContext(ctx: ParserRuleContext): LexicalRange {
+    let start = rangeFromToken(ctx.start);
+    let stop = ctx.stop ? rangeFromToken(ctx.stop) : start;
+    return { start: start.start, end: stop.end };
+}
+
+/**
+ * Returns the token which holds the name in the given definition context (e.g. the TOKEN_REF of a lexer rule
+ * or the identifier of a mode or label).
+ */
+export function nameTokenForContext(ctx: ParseTree | undefined): Token | undefined {
+    if (ctx instanceof ParserRuleSpecContext) {
+        return ctx.RULE_REF().symbol;
+    }
+    if (ctx instanceof LexerRuleSpecContext) {
+        return ctx.TOKEN_REF().symbol;
+    }
+    if (ctx instanceof ModeSpecContext || ctx instanceof LabeledElementContext) {
+        return ctx.identifier().start;
+    }
+    if (ctx instanceof DelegateGrammarContext) {
+        return ctx.identifier()[ctx.identifier().length - 1].start;
+    }
+    if (ctx instanceof OptionContext) {
+        return ctx.optionValue().start;
+    }
+    if (ctx instanceof IdentifierContext) {
+        return ctx.start;
+    }
+    if (ctx instanceof TerminalNode) {
+        return ctx.symbol;
+    }
+    return undefined;
+}
+
+/**
+ * Returns the signature of a parser rule, that is, its name followed by parameters, return values, exceptions and
+ * locals (all in their original form, except that any whitespace is collapsed). Undefined for any other context.
+ */
+export function signatureForContext(ctx: ParseTree | undefined): string | undefined {
+    if (!(ctx instanceof ParserRuleSpecContext)) {
+        return undefined;
+    }
+
+    let start = ctx.RULE_REF().symbol;
+    let stop = start;
+    for (let part of [ctx.argActionBlock(), ctx.ruleReturns(), ctx.throwsSpec(), ctx.localsSpec()]) {
+        if (part && part.stop) {
+            stop = part.stop;
+        }
+    }
+
+    let text = start.inputStream!.getText(Interval.of(start.startIndex, stop.stopIndex));
+    return text.replace(/\s+/g, " ");
+}
+
+/**
+ * Converts the text of a comment (doc, block or line comment) to plain documentation text, by removing the comment
+ * markers and the leading asterisks usually found in multi line comments.
+ */
+export function documentationFromComment(comment: string): string {
+    if (comment.startsWith("//")) {
+        comment = comment.substr(2);
+    } else {
+        comment = comment.replace(/^\/\*+/, "").replace(/\*+\/$/, "");
+    }
+
+    let lines = comment.split(/\r?\n/).map(line => line.replace(/^\s*\*?/, "").trim());
+    while (lines.length > 0 && lines[0].length == 0) {
+        lines.shift();
+    }
+    while (lines.length > 0 && lines[lines.length - 1].length == 0) {
+        lines.pop();
+    }
+    return lines.join("\n");
+}
+
+/**
+ * A variable declaration in an argument block (rule parameters, return values or locals).
+ */
+export interface VariableDeclaration {
+    name: string;
+    type: string;               // The declared type, as written in the grammar (can be empty).
+    value: string | undefined;  // The default value, if one was given.
+    definition: Definition;     // The entire declaration.
+    nameRange: LexicalRange;
+};
+
+/**
+ * Parses the variable declarations in the given argument block (e.g. `[int a, String b = "x"]`). Supported are
+ * declarations with the type before the name (e.g. Java, C++) and with the type after the name (e.g. `a: number`).
+ * The details listener creates the parameter, return value and local variable symbols of a rule from these.
+ */
+export function variableDeclarationsFromContext(ctx: ArgActionBlockContext): VariableDeclaration[] {
+    let result: VariableDeclaration[] = [];
+    if (!ctx.children) {
+        return result;
+    }
+
+    // Argument content is lexed char by char (except for string literals), so collect the text together with
+    // the position of each char. Chars in literals are marked to exclude them from the structure analysis.
+    let text = "";
+    let positions: { column: number, row: number }[] = [];
+    let inLiteral: boolean[] = [];
+    for (let i = 1; i < ctx.children.length - 1; ++i) {
+        let child = ctx.children[i];
+        if (child instanceof TerminalNode) {
+            let token = child.symbol;
+            let tokenText = token.text || "";
+            for (let j = 0; j < tokenText.length; ++j) {
+                positions.push({ column: token.charPositionInLine + j, row: token.line });
+                inLiteral.push(tokenText.length > 1);
+            }
+            text += tokenText;
+        }
+    }
+
+    // Split into the individual declarations, taking nested brackets (e.g. generic types) into account.
+    let parts: [number, number][] = [];
+    let depth = 0;
+    let start = 0;
+    for (let i = 0; i <= text.length; ++i) {
+        if (i == text.length || (text[i] == "," && depth == 0 && !inLiteral[i])) {
+            parts.push([start, i]);
+            start = i + 1;
+        } else if (!inLiteral[i]) {
+            if ("([{<".indexOf(text[i]) > -1) {
+                ++depth;
+            } else if (")]}>".indexOf(text[i]) > -1) {
+                --depth;
+            }
+        }
+    }
+
+    for (let [begin, end] of parts) {
+        while (begin < end && /\s/.test(text[begin])) {
+            ++begin;
+        }
+        while (end > begin && /\s/.test(text[end - 1])) {
+            --end;
+        }
+        if (begin == end) {
+            continue;
+        }
+
+        let declaration = text.substring(begin, end);
+        let value: string | undefined;
+        let head = declaration;
+        let assignment = declaration.indexOf("=");
+        if (assignment > -1) {
+            value = declaration.substr(assignment + 1).trim();
+            head = declaration.substr(0, assignment);
+        }
+
+        // A single colon separates name and type (but not a C++ scope operator).
+        let colon = -1;
+        for (let i = 0; i < head.length; ++i) {
+            if (head[i] == ":" && head[i - 1] != ":" && head[i + 1] != ":") {
+                colon = i;
+                break;
+            }
+        }
+
+        let match: RegExpExecArray | null;
+        let type: string;
+        if (colon > -1) {
+            match = /[a-zA-Z_][a-zA-Z0-9_]*/.exec(head);
+            type = head.substr(colon + 1).trim();
+        } else {
+            match = /[a-zA-Z_][a-zA-Z0-9_]*(?=\s*$)/.exec(head);
+            type = match ? head.substr(0, match.index).trim() : "";
+        }
+        if (!match) {
+            continue;
+        }
+
+        let namePosition = positions[begin + match.index];
+        let last = positions[end - 1];
+        result.push({
+            name: match[0],
+            type: type,
+            value: value,
+            definition: {
+                text: declaration,
+                range: { start: positions[begin], end: { column: last.column + 1, row: last.row } }
+            },
+            nameRange: {
+                start: namePosition,
+                end: { column: namePosition.column + match[0].length, row: namePosition.row }
+            }
+        });
+    }
+    return result;
+}
+
+/**
+ * The attributes which are available in actions of parser rules (e.g. `$text`), with a short description.
+ */
+export const parserRuleAttributes = new Map<string, string>([
+    ["text", "The text matched by the rule"],
+    ["start", "The first token matched by the rule"],
+    ["stop", "The last token matched by the rule"],
+    ["ctx", "The context object of the rule invocation"],
+    ["parser", "The parser executing the rule"],
+]);
+
+/**
+ * The attributes which are available in actions of lexer rules.
+ */
+export const lexerRuleAttributes = new Map<string, string>([
+    ["text", "The text matched for the current token"],
+    ["type", "The token type of the current token"],
+    ["line", "The line number of the first character of the token"],
+    ["pos", "The position of the first character of the token in its line"],
+    ["index", "The index of the first character of the token in the input"],
+    ["channel", "The channel of the current token"],
+    ["mode", "The current lexer mode"],
+]);
+
+/**
+ * Creates a type object for a type name, as used in variable declarations.
+ */
+export function typeFromName(name: string): FundamentalType | undefined {
+    if (name.length == 0) {
+        return undefined;
+    }
+
+    let kind = TypeKind.Class;
+    if (/^(int|long|short|byte|unsigned|size_t|Integer|Long|Short|Byte)$/.test(name)) {
+        kind = TypeKind.Integer;
+    } else if (/^(float|double|number|Float|Double)$/.test(name)) {
+        kind = TypeKind.Float;
+    } else if (/^(string|String|str|std::string)$/.test(name)) {
+        kind = TypeKind.String;
+    } else if (/^(bool|boolean|Boolean)$/.test(name)) {
+        kind = TypeKind.Boolean;
+    }
+    return new FundamentalType(name, kind, ReferenceKind.Irrelevant);
+}
+
+/**
+ * A reference to an attribute (e.g. a label or rule parameter) in an action or argument block (e.g. `$name.text`).
+ */
+export interface AttributeReference {
+    name: string;        // The attribute name, without the dollar sign.
+    range: LexicalRange; // The range of the name (again without the dollar sign).
+};
+
+/**
+ * Collects all attribute references in the given action or argument block, for the semantic checks as well as for
+ * position lookups, highlights and renames of labels and rule variables.
+ * Action content is lexed char by char, so we have to assemble the names from the individual tokens.
+ * String literals and comments in an action are returned as single tokens and hence are automatically excluded.
+ */
+export function attributeReferencesFromContext(ctx: ParserRuleContext): AttributeReference[] {
+    let result: AttributeReference[] = [];
+    if (!ctx.children) {
+        return result;
+    }
+
+    let children = ctx.children;
+    for (let i = 0; i < children.length; ++i) {
+        if (!(children[i] instanceof TerminalNode) || children[i].text !== "$") {
+            continue;
+        }
+
+        let name = "";
+        let first: Token | undefined;
+        while (i + 1 < children.length && children[i + 1] instanceof TerminalNode) {
+            let text = children[i + 1].text;
+            if (!/^[a-zA-Z_]$/.test(text) && (name.length == 0 || !/^[0-9]$/.test(text))) {
+                break;
+            }
+
+            if (!first) {
+                first = (children[i + 1] as TerminalNode).symbol;
+            }
+            name += text;
+            ++i;
+        }
+
+        if (first) {
+            result.push({
+                name: name,
+                range: {
+                    start: { column: first.charPositionInLine, row: first.line },
+                    end: { column: first.charPositionInLine + name.length, row: first.line }
+                }
+            });
+        }
+    }
+    return result;
+}
+
 export class TokenVocabSymbol extends Symbol { }
 export class ImportSymbol extends Symbol { }
 export class BuiltInTokenSymbol extends Symbol { }
@@ -374,3 +740,16 @@ export class OptionsSymbol extends ScopedSymbol { }
 export class ActionSymbol extends ScopedSymbol { }
 export class ArgumentSymbol extends ScopedSymbol { }
 export class OperatorSymbol extends Symbol { }
+
+/**
+ * Base class for variables declared in the header of a parser rule. Their context is the argument block
+ * which contains the declaration.
+ */
+export class RuleVariableSymbol extends VariableSymbol {
+    public definition: Definition; // The entire declaration (e.g. `int a = 0`).
+    public nameRange: LexicalRange;
+}
+
+export class ParameterSymbol extends RuleVariableSymbol { }
+export class ReturnValueSymbol extends RuleVariableSymbol { }
+export class LocalVariableSymbol extends RuleVariableSymbol { }
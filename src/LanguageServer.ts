@@ -0,0 +1,691 @@
+/*
+ * This file is released under the MIT license.
+ * Copyright (c) 2018, Mike Lischke
+ *
+ * See LICENSE file for more info.
+ */
+
+"use strict";
+
+import * as path from "path";
+
+import * as lsp from "vscode-languageserver";
+
+import {
+    AntlrLanguageSupport, SymbolKind, DiagnosticType, LexicalRange, SymbolLocation, DocumentSymbol,
+    DocumentHighlightKind, FoldingRangeKind, SemanticTokenType, SemanticTokenModifier, CodeLensActionKind,
+    SelectionRange, InlayHintKind, DiagnosticEntry, LintOptions
+} from "../index";
+
+/**
+ * Settings which can be passed in by a client as initialization options.
+ */
+export interface LanguageServerSettings {
+    importDir?: string; // Where to look for imported grammars and token vocabularies. Default: the workspace root.
+
+    // Whether workspace symbol searches include all grammars in the import dir, not only the open ones.
+    // Default: true.
+    indexImportDir?: boolean;
+
+    // The rules from which all other parser rules must be reachable (rules which don't exist in a grammar are
+    // ignored). Default: the first parser rule of each grammar.
+    entryRules?: string[];
+
+    // The severities of the lint rules (e.g. { rules: { "unused-token": "off" } }). Default: the built-in severities.
+    lint?: LintOptions;
+}
+
+/**
+ * A selection range as defined in later protocol versions (see `onSelectionRanges()`).
+ */
+interface ProtocolSelectionRange {
+    range: lsp.Range;
+    parent?: ProtocolSelectionRange;
+}
+
+/**
+ * An inlay hint as defined in later protocol versions (see `onInlayHints()`).
+ */
+interface ProtocolInlayHint {
+    position: lsp.Position;
+    label: string;
+    kind: number;
+    tooltip?: string;
+    paddingLeft: boolean;
+}
+
+/**
+ * A language server (see https://microsoft.github.io/language-server-protocol/) which makes the functionality of
+ * `AntlrLanguageSupport` available to any editor with LSP support. It keeps open documents in sync with the backend,
+ * publishes diagnostics and maps requests from the client to the backend APIs.
+ */
+export class GrapsLanguageServer {
+    constructor(private connection: lsp.IConnection) {
+        connection.onInitialize(this.onInitialize.bind(this));
+
+        this.documents.onDidOpen(event => {
+            let fileName = this.fileNameFromUri(event.document.uri);
+            this.backend.loadGrammar(fileName, event.document.getText());
+            if (this.entryRules) {
+                this.backend.setEntryRules(fileName, this.entryRules);
+            }
+            this.publishDiagnostics(event.document);
+        });
+
+        this.documents.onDidChangeContent(event => {
+            let fileName = this.fileNameFromUri(event.document.uri);
+            this.backend.setText(fileName, event.document.getText());
+            this.backend.reparse(fileName);
+            this.publishDiagnostics(event.document);
+
+            // Open grammars using this one (via import or token vocabulary) must be checked against its new content.
+            let dependents = this.backend.getDependentGrammars(fileName);
+            for (let document of this.documents.all()) {
+                let dependent = this.fileNameFromUri(document.uri);
+                if (dependents.indexOf(dependent) > -1) {
+                    this.backend.reparse(dependent);
+                    this.publishDiagnostics(document);
+                }
+            }
+        });
+
+        this.documents.onDidClose(event => {
+            this.backend.releaseGrammar(this.fileNameFromUri(event.document.uri));
+            this.connection.sendDiagnostics({ uri: event.document.uri, diagnostics: [] });
+        });
+
+        connection.onHover(this.onHover.bind(this));
+        connection.onCompletion(this.onCompletion.bind(this));
+        connection.onSignatureHelp(this.onSignatureHelp.bind(this));
+        connection.onDocumentSymbol(this.onDocumentSymbol.bind(this));
+        connection.onWorkspaceSymbol(this.onWorkspaceSymbol.bind(this));
+        connection.onDefinition(this.onDefinition.bind(this));
+        connection.onReferences(this.onReferences.bind(this));
+        connection.onDocumentHighlight(this.onDocumentHighlight.bind(this));
+        connection.onFoldingRanges(this.onFoldingRanges.bind(this));
+        connection.onCodeLens(this.onCodeLens.bind(this));
+        connection.onCodeAction(this.onCodeAction.bind(this));
+
+        // Semantic tokens, selection ranges and inlay hints are not part of the protocol version supported by the
+        // server library, so they are handled as custom requests (with the method names and structures of later
+        // protocol versions).
+        connection.onRequest("textDocument/semanticTokens/full", this.onSemanticTokens.bind(this));
+        connection.onRequest("textDocument/semanticTokens/range", this.onSemanticTokens.bind(this));
+        connection.onRequest("textDocument/selectionRange", this.onSelectionRanges.bind(this));
+        connection.onRequest("textDocument/inlayHint", this.onInlayHints.bind(this));
+        connection.onRenameRequest(this.onRename.bind(this));
+        connection.onDocumentFormatting(this.onDocumentFormatting.bind(this));
+        connection.onDocumentRangeFormatting(this.onDocumentRangeFormatting.bind(this));
+    }
+
+    /**
+     * Starts listening on the connection given in the constructor.
+     */
+    public listen() {
+        this.documents.listen(this.connection);
+        this.connection.listen();
+    }
+
+    private onInitialize(params: lsp.InitializeParams): lsp.InitializeResult {
+        let settings: LanguageServerSettings = params.initializationOptions || {};
+        let importDir = settings.importDir;
+        if (!importDir) {
+            importDir = params.rootUri ? this.fileNameFromUri(params.rootUri) : (params.rootPath || ".");
+        }
+        this.backend = new AntlrLanguageSupport(importDir, settings.lint);
+        this.indexImportDir = settings.indexImportDir !== false;
+        this.entryRules = settings.entryRules;
+
+        let capabilities: lsp.ServerCapabilities & {
+            semanticTokensProvider: object,
+            selectionRangeProvider: boolean,
+            inlayHintProvider: boolean
+        } = {
+            textDocumentSync: lsp.TextDocumentSyncKind.Full,
+            hoverProvider: true,
+            completionProvider: { resolveProvider: false, triggerCharacters: ["$"] },
+            signatureHelpProvider: { triggerCharacters: ["[", ","] },
+            documentSymbolProvider: true,
+            workspaceSymbolProvider: true,
+            definitionProvider: true,
+            referencesProvider: true,
+            documentHighlightProvider: true,
+            foldingRangeProvider: true,
+            codeLensProvider: { resolveProvider: false },
+            codeActionProvider: true,
+            renameProvider: true,
+            documentFormattingProvider: true,
+            documentRangeFormattingProvider: true,
+            semanticTokensProvider: {
+                legend: GrapsLanguageServer.semanticTokensLegend(),
+                full: true,
+                range: true
+            },
+            selectionRangeProvider: true,
+            inlayHintProvider: true
+        };
+        return { capabilities: capabilities };
+    }
+
+    private onHover(params: lsp.TextDocumentPositionParams): lsp.Hover | undefined {
+        let fileName = this.fileNameFromUri(params.textDocument.uri);
+        let info = this.backend.infoForSymbol(fileName, params.position.character, params.position.line + 1, true);
+        if (!info) {
+            return undefined;
+        }
+
+        let contents = "**" + GrapsLanguageServer.descriptionFromKind(info.kind) + "** " + info.name;
+        if (info.signature) {
+            contents += "\n\n```antlr\n" + info.signature + "\n```";
+        } else if (info.definition) {
+            contents += "\n\n```antlr\n" + info.definition.text + "\n```";
+        }
+        if (info.description) {
+            contents += "\n\n" + info.description;
+        }
+        // Built-in symbols (e.g. EOF) have no definition and their source is not a file.
+        if (info.definition && info.source && path.resolve(info.source) !== path.resolve(fileName)) {
+            contents += "\n\n" + path.basename(info.source);
+        }
+
+        return { contents: { kind: lsp.MarkupKind.Markdown, value: contents } };
+    }
+
+    private onCompletion(params: lsp.TextDocumentPositionParams): lsp.CompletionItem[] {
+        let fileName = this.fileNameFromUri(params.textDocument.uri);
+        let candidates = this.backend.getCodeCompletionCandidates(fileName, params.position.character,
+            params.position.line + 1);
+
+        let result: lsp.CompletionItem[] = [];
+        for (let candidate of candidates) {
+            let item: lsp.CompletionItem = {
+                label: candidate.name,
+                kind: GrapsLanguageServer.completionKindFromKind(candidate.kind),
+                detail: GrapsLanguageServer.descriptionFromKind(candidate.kind),
+                documentation: candidate.description
+            };
+            if (candidate.snippet) {
+                item.kind = lsp.CompletionItemKind.Snippet;
+                item.insertText = candidate.snippet;
+                item.insertTextFormat = lsp.InsertTextFormat.Snippet;
+            }
+            result.push(item);
+        }
+        return result;
+    }
+
+    private onSignatureHelp(params: lsp.TextDocumentPositionParams): lsp.SignatureHelp | undefined {
+        let fileName = this.fileNameFromUri(params.textDocument.uri);
+        let help = this.backend.getSignatureHelp(fileName, params.position.character, params.position.line + 1);
+        if (!help) {
+            return undefined;
+        }
+
+        return {
+            signatures: [{
+                label: help.signature,
+                documentation: help.description,
+                parameters: help.parameters.map(parameter => { return { label: parameter }; })
+            }],
+            activeSignature: 0,
+            activeParameter: help.activeParameter
+        };
+    }
+
+    private onDocumentSymbol(params: lsp.DocumentSymbolParams): lsp.DocumentSymbol[] {
+        let convert = (symbol: DocumentSymbol): lsp.DocumentSymbol => {
+            return {
+                name: symbol.name,
+                detail: GrapsLanguageServer.descriptionFromKind(symbol.kind),
+                kind: GrapsLanguageServer.symbolKindFromKind(symbol.kind),
+                range: this.rangeFromLexicalRange(symbol.range),
+                selectionRange: this.rangeFromLexicalRange(symbol.nameRange),
+                children: symbol.children.map(convert)
+            };
+        };
+
+        return this.backend.getDocumentSymbols(this.fileNameFromUri(params.textDocument.uri)).map(convert);
+    }
+
+    private onWorkspaceSymbol(params: lsp.WorkspaceSymbolParams): lsp.SymbolInformation[] {
+        return this.backend.findWorkspaceSymbols(params.query, this.indexImportDir).map(symbol => {
+            return {
+                name: symbol.name,
+                kind: GrapsLanguageServer.symbolKindFromKind(symbol.kind),
+                location: { uri: this.uriFromFileName(symbol.source), range: this.rangeFromLexicalRange(symbol.range) }
+            };
+        });
+    }
+
+    private onDefinition(params: lsp.TextDocumentPositionParams): lsp.Location | undefined {
+        let fileName = this.fileNameFromUri(params.textDocument.uri);
+        let definition = this.backend.getDefinition(fileName, params.position.character, params.position.line + 1);
+        return definition ? this.locationFromSymbolLocation(definition) : undefined;
+    }
+
+    private onReferences(params: lsp.ReferenceParams): lsp.Location[] {
+        let fileName = this.fileNameFromUri(params.textDocument.uri);
+        let result: lsp.Location[] = [];
+        if (params.context.includeDeclaration) {
+            let definition = this.backend.getDefinition(fileName, params.position.character, params.position.line + 1);
+            if (definition) {
+                result.push(this.locationFromSymbolLocation(definition));
+            }
+        }
+
+        for (let reference of this.backend.getReferences(fileName, params.position.character, params.position.line + 1)) {
+            result.push(this.locationFromSymbolLocation(reference));
+        }
+        return result;
+    }
+
+    private onDocumentHighlight(params: lsp.TextDocumentPositionParams): lsp.DocumentHighlight[] {
+        let fileName = this.fileNameFromUri(params.textDocument.uri);
+        let highlights = this.backend.getDocumentHighlights(fileName, params.position.character,
+            params.position.line + 1);
+        return highlights.map(highlight => {
+            return {
+                range: this.rangeFromLexicalRange(highlight.range),
+                kind: highlight.kind == DocumentHighlightKind.Definition ? lsp.DocumentHighlightKind.Write
+                    : lsp.DocumentHighlightKind.Read
+            };
+        });
+    }
+
+    private onFoldingRanges(params: lsp.FoldingRangeParams): lsp.FoldingRange[] {
+        return this.backend.getFoldingRanges(this.fileNameFromUri(params.textDocument.uri)).map(range => {
+            return {
+                startLine: range.range.start.row - 1,
+                endLine: range.range.end.row - 1,
+                kind: range.kind == FoldingRangeKind.Comment ? lsp.FoldingRangeKind.Comment : lsp.FoldingRangeKind.Region
+            };
+        });
+    }
+
+    /**
+     * Returns quick fixes for the diagnostics sent by the client. These are converted back to `DiagnosticEntry`s,
+     * which always get `DiagnosticType.Error` and only carry a code if they come from this server (their source is
+     * "antlr4-graps"), and are then passed to `getCodeActions()`.
+     */
+    private onCodeAction(params: lsp.CodeActionParams): lsp.CodeAction[] {
+        let range: LexicalRange = {
+            start: { column: params.range.start.character, row: params.range.start.line + 1 },
+            end: { column: params.range.end.character, row: params.range.end.line + 1 }
+        };
+
+        // Only our own diagnostics carry a code, which allows to find a fix.
+        let diagnostics: DiagnosticEntry[] = params.context.diagnostics.map(diagnostic => {
+            return {
+                type: DiagnosticType.Error,
+                message: diagnostic.message,
+                range: {
+                    start: { column: diagnostic.range.start.character, row: diagnostic.range.start.line + 1 },
+                    end: { column: diagnostic.range.end.character, row: diagnostic.range.end.line + 1 }
+                },
+                code: diagnostic.source == "antlr4-graps" ? diagnostic.code as string : undefined
+            };
+        });
+
+        let actions = this.backend.getCodeActions(this.fileNameFromUri(params.textDocument.uri), range, diagnostics);
+        return actions.map(action => {
+            let changes: { [uri: string]: lsp.TextEdit[] } = {};
+            action.changes.forEach((edits, fileName) => {
+                changes[this.uriFromFileName(fileName)] = edits.map(edit => {
+                    return { range: this.rangeFromLexicalRange(edit.range), newText: edit.newText };
+                });
+            });
+
+            return {
+                title: action.title,
+                kind: lsp.CodeActionKind.QuickFix,
+                diagnostics: [params.context.diagnostics[diagnostics.indexOf(action.diagnostic)]],
+                edit: { changes: changes }
+            };
+        });
+    }
+
+    /**
+     * Returns the code lenses for all rules. The commands are not implemented by the server, so a client has to
+     * register them. All commands get the document URI and the rule name as arguments.
+     */
+    private onCodeLens(params: lsp.CodeLensParams): lsp.CodeLens[] {
+        let result: lsp.CodeLens[] = [];
+        let uri = params.textDocument.uri;
+        for (let lens of this.backend.getCodeLenses(this.fileNameFromUri(uri))) {
+            let range = this.rangeFromLexicalRange(lens.range);
+            let title = lens.referenceCount + (lens.referenceCount == 1 ? " reference" : " references");
+            result.push({
+                range: range,
+                command: { title: title, command: "antlr.showReferences", arguments: [uri, lens.rule] }
+            });
+
+            for (let action of lens.actions) {
+                result.push({
+                    range: range,
+                    command: {
+                        title: action.title,
+                        command: GrapsLanguageServer.commandFromCodeLensAction(action.kind),
+                        arguments: [uri, lens.rule]
+                    }
+                });
+            }
+        }
+        return result;
+    }
+
+    private onSemanticTokens(params: { textDocument: lsp.TextDocumentIdentifier, range?: lsp.Range }):
+        { data: number[] } {
+        let range: LexicalRange | undefined;
+        if (params.range) {
+            range = {
+                start: { column: params.range.start.character, row: params.range.start.line + 1 },
+                end: { column: params.range.end.character, row: params.range.end.line + 1 }
+            };
+        }
+        return { data: this.backend.getSemanticTokens(this.fileNameFromUri(params.textDocument.uri), range) };
+    }
+
+    private onSelectionRanges(params: { textDocument: lsp.TextDocumentIdentifier, positions: lsp.Position[] }):
+        ProtocolSelectionRange[] {
+        let positions = params.positions.map(position => ({ column: position.character, row: position.line + 1 }));
+        let convert = (selectionRange: SelectionRange): ProtocolSelectionRange => {
+            let result: ProtocolSelectionRange = { range: this.rangeFromLexicalRange(selectionRange.range) };
+            if (selectionRange.parent) {
+                result.parent = convert(selectionRange.parent);
+            }
+            return result;
+        };
+        return this.backend.getSelectionRanges(this.fileNameFromUri(params.textDocument.uri), positions).map(convert);
+    }
+
+    private onInlayHints(params: { textDocument: lsp.TextDocumentIdentifier, range: lsp.Range }): ProtocolInlayHint[] {
+        let range: LexicalRange = {
+            start: { column: params.range.start.character, row: params.range.start.line + 1 },
+            end: { column: params.range.end.character, row: params.range.end.line + 1 }
+        };
+        return this.backend.getInlayHints(this.fileNameFromUri(params.textDocument.uri), range).map(hint => {
+            let result: ProtocolInlayHint = {
+                position: { line: hint.position.row - 1, character: hint.position.column },
+                label: hint.kind == InlayHintKind.TokenType ? "-> " + hint.label : ": " + hint.label,
+                kind: 1, // Type
+                paddingLeft: hint.kind == InlayHintKind.TokenType
+            };
+            if (hint.tooltip) {
+                result.tooltip = hint.tooltip;
+            }
+            return result;
+        });
+    }
+
+    private onRename(params: lsp.RenameParams): lsp.WorkspaceEdit {
+        let fileName = this.fileNameFromUri(params.textDocument.uri);
+        let renameResult = this.backend.renameSymbol(fileName, params.position.character, params.position.line + 1,
+            params.newName);
+        if (renameResult.errors.length > 0) {
+            throw new lsp.ResponseError(lsp.ErrorCodes.InvalidParams, renameResult.errors.join("\n"));
+        }
+
+        let changes: { [uri: string]: lsp.TextEdit[] } = {};
+        renameResult.changes.forEach((edits, source) => {
+            changes[this.uriFromFileName(source)] = edits.map(edit => {
+                return { range: this.rangeFromLexicalRange(edit.range), newText: edit.newText };
+            });
+        });
+        return { changes: changes };
+    }
+
+    private onDocumentFormatting(params: lsp.DocumentFormattingParams): lsp.TextEdit[] {
+        let document = this.documents.get(params.textDocument.uri);
+        if (!document) {
+            return [];
+        }
+        return this.format(document, params.options, 0, document.getText().length - 1);
+    }
+
+    private onDocumentRangeFormatting(params: lsp.DocumentRangeFormattingParams): lsp.TextEdit[] {
+        let document = this.documents.get(params.textDocument.uri);
+        if (!document) {
+            return [];
+        }
+        return this.format(document, params.options, document.offsetAt(params.range.start),
+            document.offsetAt(params.range.end) - 1);
+    }
+
+    /**
+     * Formats the given range (inclusive end) of the document and returns the edit to apply.
+     * Other formatting settings can be specified in the grammar via `$antlr-format` comments.
+     */
+    private format(document: lsp.TextDocument, options: lsp.FormattingOptions, start: number,
+        stop: number): lsp.TextEdit[] {
+        let fileName = this.fileNameFromUri(document.uri);
+        let [text, targetStart, targetStop] = this.backend.formatGrammar(fileName, {
+            tabWidth: options.tabSize,
+            indentWidth: options.tabSize,
+            useTab: !options.insertSpaces
+        }, start, stop);
+
+        if (targetStart < 0) {
+            return [];
+        }
+        return [{
+            range: { start: document.positionAt(targetStart), end: document.positionAt(targetStop + 1) },
+            newText: text
+        }];
+    }
+
+    private publishDiagnostics(document: lsp.TextDocument) {
+        let diagnostics: lsp.Diagnostic[] = [];
+        for (let entry of this.backend.getDiagnostics(this.fileNameFromUri(document.uri))) {
+            diagnostics.push({
+                range: this.rangeFromLexicalRange(entry.range),
+                severity: GrapsLanguageServer.severityFromType(entry.type),
+                message: entry.message,
+                code: entry.code,
+                source: "antlr4-graps",
+                relatedInformation: entry.related ? entry.related.map(related => {
+                    return { location: this.locationFromSymbolLocation(related), message: related.message };
+                }) : undefined
+            });
+        }
+        this.connection.sendDiagnostics({ uri: document.uri, diagnostics: diagnostics });
+    }
+
+    private fileNameFromUri(uri: string): string {
+        let fileName = lsp.Files.uriToFilePath(uri);
+        return fileName ? fileName : uri;
+    }
+
+    private uriFromFileName(fileName: string): string {
+        let fullPath = path.resolve(fileName).replace(/\\/g, "/");
+        if (!fullPath.startsWith("/")) {
+            fullPath = "/" + fullPath; // Windows drive letter.
+        }
+        return "file://" + encodeURI(fullPath);
+    }
+
+    /**
+     * Backend rows are one-based, while LSP lines are zero-based. Columns are zero-based in both.
+     */
+    private rangeFromLexicalRange(range: LexicalRange): lsp.Range {
+        return {
+            start: { line: range.start.row - 1, character: range.start.column },
+            end: { line: range.end.row - 1, character: range.end.column }
+        };
+    }
+
+    private locationFromSymbolLocation(location: SymbolLocation): lsp.Location {
+        return { uri: this.uriFromFileName(location.source), range: this.rangeFromLexicalRange(location.range) };
+    }
+
+    /**
+     * The names of the semantic token types and modifiers, in the order of their numeric values.
+     */
+    private static semanticTokensLegend(): { tokenTypes: string[], tokenModifiers: string[] } {
+        let camelCase = (name: string) => name[0].toLowerCase() + name.substr(1);
+
+        let tokenTypes: string[] = [];
+        for (let type = SemanticTokenType.ParserRule; SemanticTokenType[type] != undefined; ++type) {
+            tokenTypes.push(camelCase(SemanticTokenType[type]));
+        }
+
+        let tokenModifiers: string[] = [];
+        for (let modifier = SemanticTokenModifier.Definition; SemanticTokenModifier[modifier] != undefined;
+            modifier *= 2) {
+            tokenModifiers.push(camelCase(SemanticTokenModifier[modifier]));
+        }
+        return { tokenTypes: tokenTypes, tokenModifiers: tokenModifiers };
+    }
+
+    private static commandFromCodeLensAction(kind: CodeLensActionKind): string {
+        switch (kind) {
+            case CodeLensActionKind.RailroadDiagram:
+                return "antlr.showRailroadDiagram";
+            case CodeLensActionKind.ATNGraph:
+                return "antlr.showATNGraph";
+            case CodeLensActionKind.SentenceGeneration:
+                return "antlr.generateSentences";
+            default:
+                return "antlr.debug";
+        }
+    }
+
+    private static descriptionFromKind(kind: SymbolKind): string {
+        switch (kind) {
+            case SymbolKind.Keyword:
+                return "Keyword";
+            case SymbolKind.TokenVocab:
+                return "Token vocabulary";
+            case SymbolKind.Import:
+                return "Import";
+            case SymbolKind.BuiltInLexerToken:
+                return "Built-in lexer token";
+            case SymbolKind.VirtualLexerToken:
+                return "Virtual lexer token";
+            case SymbolKind.FragmentLexerToken:
+                return "Fragment lexer token";
+            case SymbolKind.LexerToken:
+                return "Lexer token";
+            case SymbolKind.BuiltInMode:
+                return "Built-in lexer mode";
+            case SymbolKind.LexerMode:
+                return "Lexer mode";
+            case SymbolKind.BuiltInChannel:
+                return "Built-in token channel";
+            case SymbolKind.TokenChannel:
+                return "Token channel";
+            case SymbolKind.ParserRule:
+                return "Parser rule";
+            case SymbolKind.Action:
+                return "Action";
+            case SymbolKind.Predicate:
+                return "Predicate";
+            case SymbolKind.Operator:
+                return "Operator";
+            case SymbolKind.Option:
+                return "Option";
+            case SymbolKind.Grammar:
+                return "Grammar";
+            case SymbolKind.OptionsBlock:
+                return "Options block";
+            case SymbolKind.TokensBlock:
+                return "Tokens block";
+            case SymbolKind.ChannelsBlock:
+                return "Channels block";
+            case SymbolKind.AlternativeLabel:
+                return "Alternative label";
+            case SymbolKind.RuleParameter:
+                return "Rule parameter";
+            case SymbolKind.RuleReturnValue:
+                return "Rule return value";
+            case SymbolKind.RuleLocalVariable:
+                return "Rule local variable";
+            case SymbolKind.ElementLabel:
+                return "Element label";
+            default:
+                return "Unknown";
+        }
+    }
+
+    private static completionKindFromKind(kind: SymbolKind): lsp.CompletionItemKind {
+        switch (kind) {
+            case SymbolKind.Keyword:
+                return lsp.CompletionItemKind.Keyword;
+            case SymbolKind.TokenVocab:
+            case SymbolKind.Import:
+                return lsp.CompletionItemKind.Module;
+            case SymbolKind.BuiltInLexerToken:
+            case SymbolKind.VirtualLexerToken:
+            case SymbolKind.FragmentLexerToken:
+            case SymbolKind.LexerToken:
+                return lsp.CompletionItemKind.Constant;
+            case SymbolKind.BuiltInMode:
+            case SymbolKind.LexerMode:
+                return lsp.CompletionItemKind.Enum;
+            case SymbolKind.BuiltInChannel:
+            case SymbolKind.TokenChannel:
+                return lsp.CompletionItemKind.EnumMember;
+            case SymbolKind.ParserRule:
+                return lsp.CompletionItemKind.Function;
+            case SymbolKind.Option:
+                return lsp.CompletionItemKind.Property;
+            case SymbolKind.RuleParameter:
+            case SymbolKind.RuleReturnValue:
+            case SymbolKind.RuleLocalVariable:
+            case SymbolKind.ElementLabel:
+                return lsp.CompletionItemKind.Variable;
+            default:
+                return lsp.CompletionItemKind.Text;
+        }
+    }
+
+    private static symbolKindFromKind(kind: SymbolKind): lsp.SymbolKind {
+        switch (kind) {
+            case SymbolKind.TokenVocab:
+            case SymbolKind.Import:
+                return lsp.SymbolKind.Module;
+            case SymbolKind.BuiltInLexerToken:
+            case SymbolKind.VirtualLexerToken:
+            case SymbolKind.FragmentLexerToken:
+            case SymbolKind.LexerToken:
+                return lsp.SymbolKind.Constant;
+            case SymbolKind.BuiltInMode:
+            case SymbolKind.LexerMode:
+                return lsp.SymbolKind.Enum;
+            case SymbolKind.BuiltInChannel:
+            case SymbolKind.TokenChannel:
+                return lsp.SymbolKind.EnumMember;
+            case SymbolKind.ParserRule:
+                return lsp.SymbolKind.Function;
+            case SymbolKind.Grammar:
+                return lsp.SymbolKind.File;
+            case SymbolKind.OptionsBlock:
+            case SymbolKind.TokensBlock:
+            case SymbolKind.ChannelsBlock:
+                return lsp.SymbolKind.Namespace;
+            case SymbolKind.AlternativeLabel:
+                return lsp.SymbolKind.Method;
+            case SymbolKind.Action:
+                return lsp.SymbolKind.Event;
+            default:
+                return lsp.SymbolKind.Variable;
+        }
+    }
+
+    private static severityFromType(type: DiagnosticType): lsp.DiagnosticSeverity {
+        switch (type) {
+            case DiagnosticType.Hint:
+                return lsp.DiagnosticSeverity.Hint;
+            case DiagnosticType.Info:
+                return lsp.DiagnosticSeverity.Information;
+            case DiagnosticType.Warning:
+                return lsp.DiagnosticSeverity.Warning;
+            default:
+                return lsp.DiagnosticSeverity.Error;
+        }
+    }
+
+    private backend: AntlrLanguageSupport;
+    private indexImportDir: boolean;
+    private entryRules: string[] | undefined;
+    private documents: lsp.TextDocuments = new lsp.TextDocuments();
+};
@@ -0,0 +1,42 @@
+#!/usr/bin/env node
+
+/*
+ * This file is released under the MIT license.
+ * Copyright (c) 2018, Mike Lischke
+ *
+ * See LICENSE file for more info.
+ */
+
+"use strict";
+
+import * as net from "net";
+
+import { createConnection } from "vscode-languageserver";
+
+import { GrapsLanguageServer } from "../index";
+
+/**
+ * Entry point for the language server executable. Supported transports:
+ *   --stdio          Communicate via stdin/stdout (the default).
+ *   --socket=<port>  Connect to a client which listens on the given port.
+ */
+function main(args: string[]) {
+    for (let arg of args) {
+        let match = /^--socket=(\d+)$/.exec(arg);
+        if (match) {
+            let socket = net.connect(parseInt(match[1], 10));
+            new GrapsLanguageServer(createConnection(socket, socket)).listen();
+            return;
+        }
+
+        if (arg != "--stdio") {
+            console.error("Unknown argument: " + arg);
+            console.error("Usage: graps-language-server [--stdio | --socket=<port>]");
+            process.exit(1);
+        }
+    }
+
+    new GrapsLanguageServer(createConnection(process.stdin, process.stdout)).listen();
+}
+
+main(process.argv.slice(2));
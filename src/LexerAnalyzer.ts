@@ -0,0 +1,708 @@
+/*
+ * This file is released under the MIT license.
+ * Copyright (c) 2018, Mike Lischke
+ *
+ * See LICENSE file for more info.
+ */
+
+"use strict";
+
+import { Lexer, Token } from "antlr4ts";
+import { ATNState, ATNStateType, TransitionType, RuleTransition, DecisionState } from "antlr4ts/atn";
+import { IntervalSet } from "antlr4ts/misc";
+
+import {
+    LexerRuleSpecContext, LexerAltListContext, LexerElementContext, LexerAtomContext, SetElementContext,
+    CharacterRangeContext
+} from "../parser/ANTLRv4Parser";
+
+import { InterpreterData } from "./InterpreterDataReader";
+
+export enum LexerConflictKind {
+    Shadowed,   // The later rule can never produce a token, because the earlier one matches all of its input.
+    Overlap     // Both rules can match the same input (but each can also match input the other can't).
+};
+
+/**
+ * Describes two lexer rules of the same mode which can match the same input.
+ */
+export class LexerConflict {
+    kind: LexerConflictKind;
+    rule: string;       // The later rule.
+    other: string;      // The earlier rule, which wins if both match the same input.
+    mode: string;
+    example: string;    // The shortest input matched by both rules, as literal (e.g. 'a\n').
+    exact: boolean;     // False if the input of one of the rules could only be approximated.
+};
+
+// A transition between 2 states of an automaton, which is an epsilon transition if no set is given.
+interface AutomatonTransition {
+    set?: IntervalSet;
+    target: number;
+}
+
+/**
+ * A nondeterministic finite automaton for the input matched by a single lexer rule.
+ */
+class Automaton {
+    public transitions: AutomatonTransition[][] = [];
+    public start: number;
+    public accept: number;
+
+    // Cleared if the input of the rule can only be approximated (predicates, recursion, Unicode properties etc.).
+    public exact = true;
+
+    constructor(public name: string) {
+        this.start = this.addState();
+        this.accept = this.addState();
+    }
+
+    public addState(): number {
+        this.transitions.push([]);
+        return this.transitions.length - 1;
+    }
+
+    public addTransition(from: number, to: number, set?: IntervalSet) {
+        this.transitions[from].push({ set: set, target: to });
+    }
+
+    /**
+     * Returns the sorted list of states reachable from the given states via epsilon transitions (including these).
+     */
+    public closure(states: number[]): number[] {
+        let result = new Set<number>(states);
+        let pending = states.slice();
+        while (pending.length > 0) {
+            for (let transition of this.transitions[pending.pop()!]) {
+                if (!transition.set && !result.has(transition.target)) {
+                    result.add(transition.target);
+                    pending.push(transition.target);
+                }
+            }
+        }
+        return Array.from(result).sort((lhs, rhs) => lhs - rhs);
+    }
+
+    /**
+     * Determines if the automaton accepts the given input (a list of code points) completely.
+     */
+    public matches(input: number[]): boolean {
+        let states = this.closure([this.start]);
+        for (let char of input) {
+            let next: number[] = [];
+            for (let state of states) {
+                for (let transition of this.transitions[state]) {
+                    if (transition.set && transition.set.contains(char) && next.indexOf(transition.target) == -1) {
+                        next.push(transition.target);
+                    }
+                }
+            }
+            states = this.closure(next);
+        }
+        return states.indexOf(this.accept) > -1;
+    }
+}
+
+// The limit for the number of state combinations explored when comparing 2 rules.
+const maxComparisonSteps = 5000;
+
+/**
+ * Finds lexer rules which can never produce a token, because an earlier rule in the same mode always wins, and
+ * rules which can match the same input as an earlier rule. The rules are either taken from the lexer ATN in the
+ * interpreter data of a grammar or from its parse tree.
+ */
+export class LexerAnalyzer {
+    /**
+     * Creates the automata for the (non-fragment) rules in all modes of the given lexer interpreter data.
+     */
+    public static fromATN(data: InterpreterData): LexerAnalyzer {
+        let result = new LexerAnalyzer();
+        let atn = data.atn;
+        for (let mode = 0; mode < atn.modeToStartState.length; ++mode) {
+            let automata: Automaton[] = [];
+            for (let transition of atn.modeToStartState[mode].getTransitions()) {
+                let ruleIndex = transition.target.ruleIndex;
+                automata.push(LexerAnalyzer.automatonFromATN(data, ruleIndex));
+            }
+            result.modes.set(data.modes[mode] || "mode " + mode, automata);
+        }
+        return result;
+    }
+
+    /**
+     * Creates the automata for the given rules (mode name -> non-fragment rules in that mode), using the given rules
+     * (including fragments and rules of imported grammars) to resolve references to other rules.
+     */
+    public static fromParseTree(modes: Map<string, LexerRuleSpecContext[]>, rules: Map<string, LexerRuleSpecContext>,
+        caseInsensitive: boolean): LexerAnalyzer {
+        let result = new LexerAnalyzer();
+        result.rules = rules;
+        result.caseInsensitive = caseInsensitive;
+        modes.forEach((contexts, mode) => {
+            result.modes.set(mode, contexts.map(context => {
+                let automaton = new Automaton(context.TOKEN_REF().text);
+                let end = result.addAlternatives(automaton, context.lexerRuleBlock().lexerAltList(),
+                    automaton.start, [automaton.name]);
+                automaton.addTransition(end, automaton.accept);
+                return automaton;
+            }));
+        });
+        return result;
+    }
+
+    /**
+     * Compares each rule with all rules defined before it in the same mode. Rules which can match empty input are not
+     * considered. If the input of one of the rules can only be approximated, they are at most reported as overlapping.
+     */
+    public analyze(): LexerConflict[] {
+        let result: LexerConflict[] = [];
+        this.modes.forEach((automata, mode) => {
+            let usable = automata.filter(automaton => {
+                return automaton.closure([automaton.start]).indexOf(automaton.accept) == -1;
+            });
+            let firstSets = usable.map(automaton => firstSet(automaton));
+
+            for (let i = 1; i < usable.length; ++i) {
+                for (let j = 0; j < i; ++j) {
+                    if (firstSets[i].and(firstSets[j]).isNil) {
+                        continue;
+                    }
+
+                    let comparison = compare(usable[j], usable[i]);
+                    if (!comparison || comparison.example == undefined) {
+                        continue;
+                    }
+                    let example = toLiteral(comparison.example);
+
+                    // An earlier rule matching a subset of the later one is the usual keyword/identifier case.
+                    let exact = usable[i].exact && usable[j].exact;
+                    if (!comparison.onlyLater && exact) {
+                        result.push({ kind: LexerConflictKind.Shadowed, rule: usable[i].name, other: usable[j].name,
+                            mode: mode, example: example, exact: exact });
+                    } else if (comparison.onlyEarlier) {
+                        result.push({ kind: LexerConflictKind.Overlap, rule: usable[i].name, other: usable[j].name,
+                            mode: mode, example: example, exact: exact });
+                    }
+                }
+            }
+        });
+
+        return result;
+    }
+
+    /**
+     * Returns the name of the first rule in the default mode, which matches the given string literal (including the
+     * quotes) completely. That is the token the lexer produces for this input. Rules whose input can only be
+     * approximated are skipped.
+     */
+    public tokenForLiteral(literal: string): string | undefined {
+        let input = decodeLiteral(literal);
+        let automata = this.modes.values().next().value as Automaton[] | undefined;
+        if (!input || input.length == 0 || !automata) {
+            return undefined;
+        }
+
+        let automaton = automata.find(automaton => automaton.exact && automaton.matches(input!));
+        return automaton ? automaton.name : undefined;
+    }
+
+    /**
+     * Converts the given rule of the lexer ATN. Rules invoked by it are inlined, except for recursive invocations.
+     */
+    private static automatonFromATN(data: InterpreterData, ruleIndex: number): Automaton {
+        let automaton = new Automaton(data.ruleNames[ruleIndex]);
+        let ids = new Map<string, number>();
+        let pending: [ATNState, number[], number][] = [];
+
+        // The stack holds the follow states of the rule invocations.
+        let stateFor = (state: ATNState, stack: number[]): number => {
+            let key = state.stateNumber + ":" + stack.join(",");
+            let id = ids.get(key);
+            if (id == undefined) {
+                id = automaton.addState();
+                ids.set(key, id);
+                pending.push([state, stack, id]);
+            }
+            return id;
+        };
+
+        automaton.addTransition(automaton.start, stateFor(data.atn.ruleToStartState[ruleIndex], []));
+        while (pending.length > 0) {
+            let [state, stack, id] = pending.pop()!;
+            if (state.stateType == ATNStateType.RULE_STOP) {
+                if (stack.length == 0) {
+                    automaton.addTransition(id, automaton.accept);
+                } else {
+                    let follow = data.atn.states[stack[stack.length - 1]];
+                    automaton.addTransition(id, stateFor(follow, stack.slice(0, -1)));
+                }
+                continue;
+            }
+
+            if (state instanceof DecisionState && state.nonGreedy) {
+                automaton.exact = false;
+            }
+
+            for (let transition of state.getTransitions()) {
+                switch (transition.serializationType) {
+                    case TransitionType.RULE: {
+                        let ruleTransition = transition as RuleTransition;
+                        let activeRules = stack.map(entry => data.atn.states[entry].ruleIndex);
+                        activeRules.push(state.ruleIndex);
+                        if (activeRules.indexOf(ruleTransition.target.ruleIndex) > -1) {
+                            automaton.exact = false;
+                        } else {
+                            automaton.addTransition(id, stateFor(ruleTransition.target,
+                                [...stack, ruleTransition.followState.stateNumber]));
+                        }
+                        break;
+                    }
+
+                    case TransitionType.PREDICATE:
+                    case TransitionType.PRECEDENCE: {
+                        automaton.exact = false;
+                        automaton.addTransition(id, stateFor(transition.target, stack));
+                        break;
+                    }
+
+                    case TransitionType.WILDCARD: {
+                        automaton.addTransition(id, stateFor(transition.target, stack),
+                            IntervalSet.of(Lexer.MIN_CHAR_VALUE, Lexer.MAX_CHAR_VALUE));
+                        break;
+                    }
+
+                    case TransitionType.NOT_SET: {
+                        automaton.addTransition(id, stateFor(transition.target, stack),
+                            transition.label!.complementRange(Lexer.MIN_CHAR_VALUE, Lexer.MAX_CHAR_VALUE));
+                        break;
+                    }
+
+                    default: {
+                        let label = transition.isEpsilon ? undefined : transition.label;
+                        if (label && label.contains(Token.EOF)) { // EOF is no input we could compare.
+                            automaton.exact = false;
+                        } else {
+                            automaton.addTransition(id, stateFor(transition.target, stack), label);
+                        }
+                        break;
+                    }
+                }
+            }
+        }
+
+        return automaton;
+    }
+
+    /**
+     * Adds the states for the given alternatives, starting at the given state. Returns the state reached at the end.
+     * The stack contains the names of the rules currently being inlined.
+     */
+    private addAlternatives(automaton: Automaton, alternatives: LexerAltListContext, from: number,
+        stack: string[]): number {
+        let end = automaton.addState();
+        for (let alternative of alternatives.lexerAlt()) {
+            let current = from;
+            let elements = alternative.lexerElements();
+            if (elements) {
+                for (let element of elements.lexerElement()) {
+                    current = this.addElement(automaton, element, current, stack);
+                }
+            }
+            automaton.addTransition(current, end);
+        }
+        return end;
+    }
+
+    private addElement(automaton: Automaton, element: LexerElementContext, from: number, stack: string[]): number {
+        let actionBlock = element.actionBlock();
+        if (actionBlock) {
+            if (element.QUESTION()) { // A predicate.
+                automaton.exact = false;
+            }
+            return from;
+        }
+
+        let addContent = (start: number): number => {
+            let labeled = element.labeledLexerElement();
+            let atom = labeled ? labeled.lexerAtom() : element.lexerAtom();
+            let block = element.lexerBlock();
+            if (atom) {
+                return this.addAtom(automaton, atom, start, stack);
+            }
+            if (block) {
+                return this.addAlternatives(automaton, block.lexerAltList(), start, stack);
+            }
+
+            // A parser block in a lexer rule.
+            automaton.exact = false;
+            return start;
+        };
+
+        let suffix = element.ebnfSuffix();
+        if (!suffix) {
+            return addContent(from);
+        }
+
+        // Non-greedy operators (`*?`, `+?` and `??`) stop matching as early as possible, which the automaton cannot
+        // express.
+        if (suffix.QUESTION().length > (suffix.STAR() || suffix.PLUS() ? 0 : 1)) {
+            automaton.exact = false;
+        }
+
+        // Loops get their own states, to avoid that other paths can enter them.
+        let end = automaton.addState();
+        if (!suffix.STAR() && !suffix.PLUS()) {
+            automaton.addTransition(addContent(from), end);
+            automaton.addTransition(from, end);
+        } else {
+            let loopStart = automaton.addState();
+            automaton.addTransition(from, loopStart);
+            let loopEnd = addContent(loopStart);
+            automaton.addTransition(loopEnd, loopStart);
+            automaton.addTransition(suffix.STAR() ? loopStart : loopEnd, end);
+        }
+        return end;
+    }
+
+    private addAtom(automaton: Automaton, atom: LexerAtomContext, from: number, stack: string[]): number {
+        let set: IntervalSet | undefined;
+        let terminal = atom.terminalRule();
+        let notSet = atom.notSet();
+        let charSet = atom.LEXER_CHAR_SET();
+        let range = atom.characterRange();
+        if (terminal) {
+            let literal = terminal.STRING_LITERAL();
+            if (literal) {
+                let codePoints = decodeLiteral(literal.text);
+                if (!codePoints) {
+                    automaton.exact = false;
+                    return from;
+                }
+
+                let current = from;
+                for (let codePoint of codePoints) {
+                    let next = automaton.addState();
+                    automaton.addTransition(current, next, this.caseVariants(IntervalSet.of(codePoint)));
+                    current = next;
+                }
+                return current;
+            }
+
+            let name = terminal.TOKEN_REF()!.text;
+            let rule = this.rules.get(name);
+            if (!rule || stack.indexOf(name) > -1) { // Unknown rule (or EOF) or recursion.
+                automaton.exact = false;
+                return from;
+            }
+            return this.addAlternatives(automaton, rule.lexerRuleBlock().lexerAltList(), from, [...stack, name]);
+        } else if (notSet) {
+            let element = notSet.setElement();
+            let blockSet = notSet.blockSet();
+            let elements = element ? [element] : blockSet!.setElement();
+            let sets = elements.map(entry => this.setFromSetElement(entry));
+            if (sets.some(entry => !entry)) {
+                automaton.exact = false;
+                return from;
+            }
+            set = this.caseVariants(IntervalSet.or(sets as IntervalSet[]))
+                .complementRange(Lexer.MIN_CHAR_VALUE, Lexer.MAX_CHAR_VALUE);
+        } else if (charSet) {
+            set = decodeCharSet(charSet.text);
+        } else if (range) {
+            set = rangeSet(range);
+        } else if (atom.DOT()) {
+            set = IntervalSet.of(Lexer.MIN_CHAR_VALUE, Lexer.MAX_CHAR_VALUE);
+        }
+
+        if (!set) {
+            automaton.exact = false;
+            return from;
+        }
+
+        let next = automaton.addState();
+        automaton.addTransition(from, next, this.caseVariants(set));
+        return next;
+    }
+
+    /**
+     * Returns the characters matched by an element of a negated set or undefined if they cannot be determined.
+     */
+    private setFromSetElement(element: SetElementContext): IntervalSet | undefined {
+        let literal = element.STRING_LITERAL();
+        let range = element.characterRange();
+        let charSet = element.LEXER_CHAR_SET();
+        if (literal) {
+            let codePoints = decodeLiteral(literal.text);
+            return codePoints && codePoints.length == 1 ? IntervalSet.of(codePoints[0]) : undefined;
+        }
+        if (range) {
+            return rangeSet(range);
+        }
+        if (charSet) {
+            return decodeCharSet(charSet.text);
+        }
+
+        // A token reference, which is only allowed if the token is a single character set.
+        let rule = this.rules.get(element.TOKEN_REF()!.text);
+        let alternatives = rule ? rule.lexerRuleBlock().lexerAltList().lexerAlt() : [];
+        let sets: IntervalSet[] = [];
+        for (let alternative of alternatives) {
+            let elements = alternative.lexerElements();
+            let single = elements && elements.lexerElement().length == 1 ? elements.lexerElement(0) : undefined;
+            let atom = single && !single.ebnfSuffix() ? single.lexerAtom() : undefined;
+            let set: IntervalSet | undefined;
+            if (atom && atom.LEXER_CHAR_SET()) {
+                set = decodeCharSet(atom.LEXER_CHAR_SET()!.text);
+            } else if (atom && atom.characterRange()) {
+                set = rangeSet(atom.characterRange()!);
+            }
+            if (!set) {
+                return undefined;
+            }
+            sets.push(set);
+        }
+        return sets.length > 0 ? IntervalSet.or(sets) : undefined;
+    }
+
+    /**
+     * Adds the other case of all ASCII letters in the given set, if the grammar is case insensitive.
+     */
+    private caseVariants(set: IntervalSet): IntervalSet {
+        if (!this.caseInsensitive) {
+            return set;
+        }
+
+        let result = new IntervalSet();
+        result.addAll(set);
+        for (let interval of set.intervals) {
+            for (let [first, last, offset] of [[0x41, 0x5A, 0x20], [0x61, 0x7A, -0x20]]) {
+                let a = Math.max(interval.a, first);
+                let b = Math.min(interval.b, last);
+                if (a <= b) {
+                    result.add(a + offset, b + offset);
+                }
+            }
+        }
+        return result;
+    }
+
+    private modes = new Map<string, Automaton[]>(); // Mode name -> automata of the rules in definition order.
+    private rules = new Map<string, LexerRuleSpecContext>();
+    private caseInsensitive = false;
+};
+
+/**
+ * Returns the characters which can start the input of the given automaton.
+ */
+function firstSet(automaton: Automaton): IntervalSet {
+    let result = new IntervalSet();
+    for (let state of automaton.closure([automaton.start])) {
+        for (let transition of automaton.transitions[state]) {
+            if (transition.set) {
+                result.addAll(transition.set);
+            }
+        }
+    }
+    return result;
+}
+
+/**
+ * Explores the input of both automata in parallel to find out if there's input matched by both (returned as
+ * example), input only matched by the earlier and input only matched by the later one. Returns undefined if that
+ * could not be determined within a reasonable number of steps.
+ */
+function compare(earlier: Automaton, later: Automaton):
+    { example?: string, onlyEarlier: boolean, onlyLater: boolean } | undefined {
+    let result: { example?: string, onlyEarlier: boolean, onlyLater: boolean } = {
+        onlyEarlier: false, onlyLater: false
+    };
+
+    let visited = new Set<string>();
+    let pending: [number[], number[], string][] = [
+        [earlier.closure([earlier.start]), later.closure([later.start]), ""]
+    ];
+    while (pending.length > 0) {
+        if (visited.size > maxComparisonSteps) {
+            return undefined;
+        }
+
+        let [earlierStates, laterStates, text] = pending.shift()!;
+        let earlierAccepts = earlierStates.indexOf(earlier.accept) > -1;
+        let laterAccepts = laterStates.indexOf(later.accept) > -1;
+        if (earlierAccepts && laterAccepts && result.example == undefined) {
+            result.example = text;
+        }
+        result.onlyEarlier = result.onlyEarlier || (earlierAccepts && !laterAccepts);
+        result.onlyLater = result.onlyLater || (laterAccepts && !earlierAccepts);
+        if (result.example != undefined && result.onlyEarlier && result.onlyLater) {
+            break;
+        }
+
+        // Split the characters of all outgoing transitions into intervals, which lead to the same states.
+        let earlierTransitions = outgoingTransitions(earlier, earlierStates);
+        let laterTransitions = outgoingTransitions(later, laterStates);
+        let bounds = new Set<number>();
+        for (let transition of [...earlierTransitions, ...laterTransitions]) {
+            for (let interval of transition.set!.intervals) {
+                bounds.add(interval.a);
+                bounds.add(interval.b + 1);
+            }
+        }
+
+        let sortedBounds = Array.from(bounds).sort((lhs, rhs) => lhs - rhs);
+        for (let i = 0; i < sortedBounds.length - 1; ++i) {
+            let char = sortedBounds[i];
+            let nextEarlier = earlier.closure(earlierTransitions.filter(transition => transition.set!.contains(char))
+                .map(transition => transition.target));
+            let nextLater = later.closure(laterTransitions.filter(transition => transition.set!.contains(char))
+                .map(transition => transition.target));
+            if (nextEarlier.length == 0 && nextLater.length == 0) {
+                continue;
+            }
+
+            let key = nextEarlier.join(",") + "|" + nextLater.join(",");
+            if (!visited.has(key)) {
+                visited.add(key);
+                pending.push([nextEarlier, nextLater,
+                    text + String.fromCodePoint(representative(char, sortedBounds[i + 1] - 1))]);
+            }
+        }
+    }
+
+    return result;
+}
+
+function outgoingTransitions(automaton: Automaton, states: number[]): AutomatonTransition[] {
+    let result: AutomatonTransition[] = [];
+    for (let state of states) {
+        result.push(...automaton.transitions[state].filter(transition => transition.set));
+    }
+    return result;
+}
+
+/**
+ * Returns a character from the given range, which is preferably printable (for examples shown to the user).
+ */
+function representative(first: number, last: number): number {
+    for (let [a, b] of [[0x61, 0x7A], [0x41, 0x5A], [0x30, 0x39], [0x21, 0x7E]]) {
+        if (first <= b && last >= a) {
+            return Math.max(first, a);
+        }
+    }
+    return first;
+}
+
+/**
+ * Converts the given text to a string literal, as used in grammars.
+ */
+function toLiteral(text: string): string {
+    let result = "";
+    for (let char of text) {
+        let codePoint = char.codePointAt(0)!;
+        switch (char) {
+            case "\n": result += "\\n"; break;
+            case "\r": result += "\\r"; break;
+            case "\t": result += "\\t"; break;
+            case "'": result += "\\'"; break;
+            case "\\": result += "\\\\"; break;
+            default: {
+                if (codePoint < 0x20 || (codePoint >= 0x7F && codePoint <= 0xA0) || codePoint > 0xFFFF) {
+                    result += "\\u{" + codePoint.toString(16).toUpperCase() + "}";
+                } else {
+                    result += char;
+                }
+            }
+        }
+    }
+    return "'" + result + "'";
+}
+
+function rangeSet(range: CharacterRangeContext): IntervalSet | undefined {
+    let first = decodeLiteral(range.STRING_LITERAL(0).text);
+    let last = decodeLiteral(range.STRING_LITERAL(1).text);
+    if (!first || !last || first.length != 1 || last.length != 1 || first[0] > last[0]) {
+        return undefined;
+    }
+    return IntervalSet.of(first[0], last[0]);
+}
+
+/**
+ * Reads a single (possibly escaped) character from the given text at the given index. Returns the code point and
+ * the index after the character or undefined for unsupported escape sequences (like Unicode properties).
+ */
+function readCharacter(text: string, index: number, escapes: string): [number, number] | undefined {
+    let codePoint = text.codePointAt(index)!;
+    let length = codePoint > 0xFFFF ? 2 : 1;
+    if (text[index] != "\\") {
+        return [codePoint, index + length];
+    }
+
+    let next = text[index + 1];
+    switch (next) {
+        case "n": return [0x0A, index + 2];
+        case "r": return [0x0D, index + 2];
+        case "t": return [0x09, index + 2];
+        case "b": return [0x08, index + 2];
+        case "f": return [0x0C, index + 2];
+        case "u": {
+            let match = /^\\u(?:\{([0-9a-fA-F]+)\}|([0-9a-fA-F]{4}))/.exec(text.substr(index));
+            if (!match) {
+                return undefined;
+            }
+            return [parseInt(match[1] || match[2], 16), index + match[0].length];
+        }
+
+        default: {
+            if (escapes.indexOf(next) == -1) {
+                return undefined;
+            }
+            return [next.codePointAt(0)!, index + 2];
+        }
+    }
+}
+
+/**
+ * Converts the given string literal (including the quotes) into a list of code points.
+ */
+function decodeLiteral(literal: string): number[] | undefined {
+    let result: number[] = [];
+    let text = literal.substr(1, literal.length - 2);
+    let index = 0;
+    while (index < text.length) {
+        let entry = readCharacter(text, index, "\\'\"");
+        if (!entry) {
+            return undefined;
+        }
+        result.push(entry[0]);
+        index = entry[1];
+    }
+    return result;
+}
+
+/**
+ * Converts the given lexer char set (including the brackets) into an interval set.
+ */
+function decodeCharSet(charSet: string): IntervalSet | undefined {
+    let result = new IntervalSet();
+    let text = charSet.substr(1, charSet.length - 2);
+    let index = 0;
+    while (index < text.length) {
+        let first = readCharacter(text, index, "\\]-[");
+        if (!first) {
+            return undefined;
+        }
+        index = first[1];
+
+        if (text[index] == "-" && index + 1 < text.length) {
+            let last = readCharacter(text, index + 1, "\\]-[");
+            if (!last || last[0] < first[0]) {
+                return undefined;
+            }
+            result.add(first[0], last[0]);
+            index = last[1];
+        } else {
+            result.add(first[0]);
+        }
+    }
+    return result;
+}
@@ -7,16 +7,19 @@
 
 "use strict";
 
-import { SymbolGroupKind, SymbolKind, DiagnosticEntry, DiagnosticType } from '../index';
-import { GrapsSymbolTable, TokenSymbol, RuleSymbol } from './GrapsSymbolTable';
+import { SymbolGroupKind, SymbolKind, DiagnosticEntry, DiagnosticType, DiagnosticCode } from '../index';
+import {
+    GrapsSymbolTable, TokenSymbol, RuleSymbol, attributeReferencesFromContext, parserRuleAttributes
+} from './GrapsSymbolTable';
 import { ANTLRv4ParserListener } from '../parser/ANTLRv4ParserListener';
 import {
     TerminalRuleContext, RulerefContext, SetElementContext, LexerCommandContext, LexerRuleSpecContext,
-    ParserRuleSpecContext
+    ParserRuleSpecContext, ActionBlockContext, ArgActionBlockContext
 } from '../parser/ANTLRv4Parser';
 
 import { Token, ParserRuleContext } from 'antlr4ts';
-import { TerminalNode } from 'antlr4ts/tree';
+import { TerminalNode, ParseTree } from 'antlr4ts/tree';
+import { ScopedSymbol, VariableSymbol } from 'antlr4-c3';
 
 export class SemanticListener implements ANTLRv4ParserListener {
     constructor(private diagnostics: DiagnosticEntry[], private symbolTable: GrapsSymbolTable) { }
@@ -26,8 +29,9 @@ export class SemanticListener implements ANTLRv4ParserListener {
         let tokenRef = ctx.TOKEN_REF();
         if (tokenRef) {
             let symbol = tokenRef.text;
-            this.checkSymbolExistance(true, SymbolGroupKind.TokenRef, symbol, "Unknown token reference", tokenRef.symbol);
-            this.symbolTable.countReference(symbol);
+            this.checkSymbolExistance(true, SymbolGroupKind.TokenRef, DiagnosticCode.UnknownToken, symbol,
+                "Unknown token reference", tokenRef.symbol);
+            this.symbolTable.countReference(symbol, tokenRef.symbol);
         }
     }
 
@@ -36,8 +40,9 @@ export class SemanticListener implements ANTLRv4ParserListener {
         let ruleRef = ctx.RULE_REF();
         if (ruleRef) {
             let symbol = ruleRef.text;
-            this.checkSymbolExistance(true, SymbolGroupKind.RuleRef, symbol, "Unknown parser rule", ruleRef.symbol);
-            this.symbolTable.countReference(symbol);
+            this.checkSymbolExistance(true, SymbolGroupKind.RuleRef, DiagnosticCode.UnknownParserRule, symbol,
+                "Unknown parser rule", ruleRef.symbol);
+            this.symbolTable.countReference(symbol, ruleRef.symbol);
         }
     }
 
@@ -46,8 +51,9 @@ export class SemanticListener implements ANTLRv4ParserListener {
         let tokenRef = ctx.TOKEN_REF();
         if (tokenRef) {
             let symbol = tokenRef.text;
-            this.checkSymbolExistance(true, SymbolGroupKind.TokenRef, symbol, "Unknown token reference", tokenRef.symbol);
-            this.symbolTable.countReference(symbol);
+            this.checkSymbolExistance(true, SymbolGroupKind.TokenRef, DiagnosticCode.UnknownToken, symbol,
+                "Unknown token reference", tokenRef.symbol);
+            this.symbolTable.countReference(symbol, tokenRef.symbol);
         }
     }
 
@@ -58,17 +64,20 @@ export class SemanticListener implements ANTLRv4ParserListener {
         if (lexerCommandExprId) {
             let name = ctx.lexerCommandName().text;
             let kind = SymbolGroupKind.TokenRef;
+            let code = DiagnosticCode.UnknownToken;
 
             let value = name.toLowerCase();
             if (value == "pushmode" || value == "mode") {
                 name = "mode";
                 kind = SymbolGroupKind.LexerMode;
+                code = DiagnosticCode.UnknownMode;
             } else if (value == "channel") {
                 kind = SymbolGroupKind.TokenChannel;
+                code = DiagnosticCode.UnknownChannel;
             }
             let symbol = lexerCommandExprId.text;
-            this.checkSymbolExistance(true, kind, symbol, "Unknown " + name, lexerCommandExprId.start);
-            this.symbolTable.countReference(symbol);
+            this.checkSymbolExistance(true, kind, code, symbol, "Unknown " + name, lexerCommandExprId.start);
+            this.symbolTable.countReference(symbol, lexerCommandExprId.start);
         }
     }
 
@@ -121,7 +130,54 @@ export class SemanticListener implements ANTLRv4ParserListener {
         }
     }
 
-    protected checkSymbolExistance(mustExist: boolean, kind: SymbolGroupKind, symbol: string, message: string, offendingToken: Token) {
+    // Check attribute references in parser rule actions.
+    exitActionBlock = function(ctx: ActionBlockContext) {
+        this.checkAttributeReferences(ctx);
+    }
+
+    // Check attribute references in arguments of rule references.
+    exitArgActionBlock = function(ctx: ArgActionBlockContext) {
+        this.checkAttributeReferences(ctx);
+    }
+
+    /**
+     * Attribute references (`$name`) in parser rules must refer to a rule or token, a label, a parameter, return
+     * value or local of the rule or to one of the built-in rule attributes. Actions outside of parser rules
+     * (named actions and lexer actions) are not checked.
+     */
+    protected checkAttributeReferences(ctx: ParserRuleContext) {
+        let run: ParseTree | undefined = ctx.parent;
+        while (run && !(run instanceof ParserRuleSpecContext) && !(run instanceof LexerRuleSpecContext)) {
+            run = run.parent;
+        }
+        if (!(run instanceof ParserRuleSpecContext)) {
+            return;
+        }
+
+        let ruleSymbol = this.symbolTable.symbolWithContext(run);
+        let locals: string[] = [];
+        if (ruleSymbol instanceof ScopedSymbol) {
+            locals = ruleSymbol.getNestedSymbolsOfType(VariableSymbol).map(symbol => symbol.name);
+        }
+
+        for (let reference of attributeReferencesFromContext(ctx)) {
+            if (locals.indexOf(reference.name) > -1 || parserRuleAttributes.has(reference.name)
+                || this.symbolTable.resolve(reference.name)) {
+                continue;
+            }
+
+            let entry: DiagnosticEntry = {
+                type: DiagnosticType.Error,
+                message: "Unknown attribute reference '$" + reference.name + "'",
+                range: reference.range,
+                code: DiagnosticCode.UnknownAttribute
+            }
+            this.diagnostics.push(entry);
+        }
+    }
+
+    protected checkSymbolExistance(mustExist: boolean, kind: SymbolGroupKind, code: DiagnosticCode, symbol: string,
+        message: string, offendingToken: Token) {
         if (this.symbolTable.symbolExistsInGroup(symbol, kind, false) != mustExist) {
             let entry: DiagnosticEntry = {
                 type: DiagnosticType.Error,
@@ -135,7 +191,8 @@ export class SemanticListener implements ANTLRv4ParserListener {
                         column: offendingToken.charPositionInLine + offendingToken.stopIndex - offendingToken.startIndex + 1,
                         row: offendingToken.line
                     }
-                }
+                },
+                code: code
             }
             this.diagnostics.push(entry);
         }
@@ -154,7 +211,8 @@ export class SemanticListener implements ANTLRv4ParserListener {
                     column: offendingToken.charPositionInLine + offendingToken.stopIndex - offendingToken.startIndex + 1,
                     row: offendingToken.line
                 }
-            }
+            },
+            code: DiagnosticCode.DuplicateSymbol
         }
         this.diagnostics.push(entry);
     }
@@ -23,19 +23,25 @@ import {
     RuleStopState, PlusBlockStartState, StarLoopEntryState, RuleStartState
 } from 'antlr4ts/atn';
 import { ParseCancellationException, IntervalSet } from 'antlr4ts/misc';
-import { ParseTreeWalker, TerminalNode, ParseTree, ParseTreeListener } from 'antlr4ts/tree';
+import { ParseTreeWalker, TerminalNode, ParseTree, ParseTreeListener, Trees } from 'antlr4ts/tree';
 
-import { CodeCompletionCore, Symbol, ScopedSymbol, LiteralSymbol } from "antlr4-c3";
+import { CodeCompletionCore, Symbol, ScopedSymbol, LiteralSymbol, VariableSymbol } from "antlr4-c3";
 
 import {
     ANTLRv4Parser, ParserRuleSpecContext, LexerRuleSpecContext, GrammarSpecContext, RuleSpecContext, OptionsSpecContext,
-    TokensSpecContext
+    TokensSpecContext, ActionBlockContext, ArgActionBlockContext, IdentifierContext, LabeledElementContext,
+    LabeledAltContext, PrequelConstructContext, ModeSpecContext, OptionContext, ElementOptionContext, IdListContext,
+    LexerCommandExprContext, RulerefContext, TerminalRuleContext, SetElementContext, AlternativeContext, ElementContext,
+    BlockContext
 } from '../parser/ANTLRv4Parser';
 import { ANTLRv4Lexer } from '../parser/ANTLRv4Lexer';
 
 import {
     SymbolKind, SymbolInfo, DiagnosticEntry, DiagnosticType, ReferenceNode, ATNGraphData, GenerationOptions,
-    SentenceGenerationOptions, FormattingOptions
+    SentenceGenerationOptions, FormattingOptions, SymbolLocation, DocumentSymbol, DocumentHighlight,
+    DocumentHighlightKind, FoldingRange, FoldingRangeKind, SemanticTokenType, SemanticTokenModifier,
+    CallHierarchyItem, CallHierarchyCall, SignatureHelp, CodeLens, CodeLensActionKind, SelectionRange, InlayHint,
+    InlayHintKind, CodeAction, DiagnosticCode, TextEdit, LintRule
 } from './AntlrLanguageSupport';
 
 import { ContextErrorListener, ContextLexerErrorListener } from './ContextErrorListener';
@@ -48,21 +54,90 @@ import { ErrorParser } from "./ErrorParser";
 
 import {
     GrapsSymbolTable, BuiltInChannelSymbol, BuiltInTokenSymbol, BuiltInModeSymbol, RuleSymbol,
-    VirtualTokenSymbol, FragmentTokenSymbol, TokenSymbol, AlternativeSymbol, RuleReferenceSymbol, TokenReferenceSymbol
+    VirtualTokenSymbol, FragmentTokenSymbol, TokenSymbol, AlternativeSymbol, RuleReferenceSymbol, TokenReferenceSymbol,
+    TokenVocabSymbol, ImportSymbol, definitionForContext, attributeReferencesFromContext, rangeFromToken,
+    nameTokenForContext, rangeFromContext, OptionsSymbol, TokenChannelSymbol, LexerModeSymbol, documentationFromComment,
+    RuleVariableSymbol, parserRuleAttributes, lexerRuleAttributes, ParameterSymbol
 } from "./GrapsSymbolTable";
 
 import { LexicalRange } from "../index";
 import { SentenceGenerator } from "./SentenceGenerator";
 import { GrammarFormatter } from "./Formatter";
 import { GrapsDebugger } from "./GrapsDebugger";
+import { LexerAnalyzer, LexerConflict, LexerConflictKind } from "./LexerAnalyzer";
 
 enum GrammarType { Unknown, Parser, Lexer, Combined };
 
+// The rules and tokens referenced in a grammar (see `SourceContext.ruleReferences()`).
+interface RuleReferences {
+    parserRules: Map<string, Set<string>>;  // Parser rule -> referenced parser rules.
+    lexerRules: Map<string, Set<string>>;   // Lexer rule -> referenced lexer rules.
+    tokens: Set<string>;                    // The tokens used in parser rules.
+}
+
+// A parser rule of a grammar or one of its imports (see `SourceContext.cycleDiagnostics()`).
+interface ParserRuleDefinition {
+    context: ParserRuleSpecContext;
+    source: SourceContext;
+}
+
+// The parts of a parser rule element which matter for the cycle analysis.
+interface ElementParts {
+    optional: boolean;      // Set for `?` and `*` suffixes and for actions and predicates.
+    block?: BlockContext;
+    ruleref?: RulerefContext;
+}
+
+// The cached lexer analysis of a grammar (see `SourceContext.lexerAnalysis()`).
+interface LexerAnalysis {
+    inputs: object[]; // The parse tree, the lexer rules and the interpreter data the analyzer was created from.
+    analyzer: LexerAnalyzer;
+    conflicts?: LexerConflict[];
+}
+
+// A lint suppression comment like `// graps-disable-next-line unused-token` (see `SourceContext.isSuppressed()`).
+interface LintSuppression {
+    kind: string; // "disable", "enable" or "disable-next-line".
+    row: number;  // The row of the comment (the row after it for "disable-next-line").
+    ids: string[]; // The ids of the affected lint rules (all rules if empty).
+}
+
+const suppressionIntroducer = "graps-";
+
+// Option and command names for code completion, with a short description.
+const grammarOptions = new Map<string, string>([
+    ["superClass", "The base class of the generated parser or lexer"],
+    ["tokenVocab", "The grammar whose token vocabulary is used"],
+    ["TokenLabelType", "The type of token labels"],
+    ["contextSuperClass", "The base class of the generated rule contexts"],
+    ["exportMacro", "The macro used to export generated classes (C++ only)"],
+    ["language", "The target language of the generated code"],
+    ["caseInsensitive", "Whether the lexer matches letters regardless of their case"],
+]);
+
+const ruleOptions = new Map<string, string>([
+    ["caseInsensitive", "Whether the rule matches letters regardless of their case"],
+]);
+
+const lexerCommands = new Map<string, string>([
+    ["skip", "Discard the current token"],
+    ["more", "Continue matching and keep the text for the next token"],
+    ["type", "Set the type of the current token"],
+    ["channel", "Put the current token on the given channel"],
+    ["mode", "Switch to the given lexer mode"],
+    ["pushMode", "Switch to the given lexer mode and remember the current one"],
+    ["popMode", "Return to the last remembered lexer mode"],
+]);
+
+const targetLanguages = ["Cpp", "CSharp", "Dart", "Go", "Java", "JavaScript", "PHP", "Python2", "Python3", "Swift",
+    "TypeScript"];
+
 // One source context per file. Source contexts can reference each other (e.g. for symbol lookups).
 export class SourceContext {
     public symbolTable: GrapsSymbolTable;
     public references: SourceContext[] = []; // Contexts referencing us.
     public sourceId: string;
+    public entryRules: string[] | undefined; // The rules from which all other parser rules must be reachable.
 
     /* @internal */
     public diagnostics: DiagnosticEntry[] = [];
@@ -86,6 +161,13 @@ export class SourceContext {
             return undefined;
         }
 
+        // Attribute references in actions and variable declarations in argument blocks can refer to rule
+        // local symbols.
+        if (terminal.parent instanceof ActionBlockContext || terminal.parent instanceof ArgActionBlockContext) {
+            let symbol = this.symbolFromPosition(column, row);
+            return symbol ? this.symbolTable.getSymbolInfo(symbol) : undefined;
+        }
+
         // If limitToChildren is set we only want to show info for symbols in specific contexts.
         // These are contexts which are used as subrules in rule definitions.
         if (!limitToChildren) {
@@ -111,6 +193,97 @@ export class SourceContext {
         return undefined;
     }
 
+    /**
+     * Returns the symbol at the given position. This is either a global symbol (rule, token, mode, channel etc.)
+     * or a rule local symbol (e.g. a label or parameter), if the position is on a label definition, a rule variable
+     * declaration or on an attribute reference in an action.
+     */
+    public symbolFromPosition(column: number, row: number): Symbol | undefined {
+        let terminal = parseTreeFromPosition(this.tree!, column, row);
+        if (!terminal || !(terminal instanceof TerminalNode)) {
+            return undefined;
+        }
+
+        let parent = terminal.parent as ParserRuleContext;
+        if (parent instanceof ActionBlockContext || parent instanceof ArgActionBlockContext) {
+            for (let reference of attributeReferencesFromContext(parent)) {
+                if (reference.range.start.row == row && reference.range.start.column <= column
+                    && reference.range.end.column >= column) {
+                    let local = this.resolveLocalSymbol(parent, reference.name);
+                    return local ? local : this.symbolTable.resolve(reference.name);
+                }
+            }
+
+            for (let variable of this.declaredVariables(parent)) {
+                if (variable.nameRange.start.row == row && variable.nameRange.start.column <= column
+                    && variable.nameRange.end.column >= column) {
+                    return variable;
+                }
+            }
+            return undefined;
+        }
+
+        if (parent instanceof IdentifierContext && parent.parent instanceof LabeledElementContext) {
+            return this.resolveLocalSymbol(parent, terminal.text);
+        }
+
+        return this.symbolTable.resolve(terminal.text);
+    }
+
+    /**
+     * Returns the text of the rule or token reference at the given position, regardless of whether it can be resolved.
+     */
+    public identifierAtPosition(column: number, row: number): string | undefined {
+        let terminal = parseTreeFromPosition(this.tree!, column, row);
+        if (!terminal || !(terminal instanceof TerminalNode)) {
+            return undefined;
+        }
+
+        let type = terminal.symbol.type;
+        if (type == ANTLRv4Lexer.TOKEN_REF || type == ANTLRv4Lexer.RULE_REF) {
+            return terminal.text;
+        }
+        return undefined;
+    }
+
+    /**
+     * Returns the location of the definition of the symbol at the given position, if it can be found in this grammar
+     * or any of its dependencies. For imports and token vocabularies the grammar declaration of the dependency is returned.
+     */
+    public getDefinition(column: number, row: number): SymbolLocation | undefined {
+        let symbol = this.symbolFromPosition(column, row);
+        if (!symbol) {
+            return undefined;
+        }
+
+        if (symbol instanceof TokenVocabSymbol || symbol instanceof ImportSymbol) {
+            let owner = this.symbolTable.getDependencyOwner(symbol.name);
+            let definition = owner ? definitionForContext(owner.symbolTable.tree, true) : undefined;
+            return definition ? { source: owner!.fileName, range: definition.range } : undefined;
+        }
+
+        // Built-in symbols have no context.
+        let symbolTable = symbol.symbolTable as GrapsSymbolTable;
+        let definition = symbol instanceof RuleVariableSymbol
+            ? symbol.definition
+            : definitionForContext(symbol.context, true);
+        if (!definition || !symbolTable || !symbolTable.owner) {
+            return undefined;
+        }
+        return { source: symbolTable.owner.fileName, range: definition.range };
+    }
+
+    /**
+     * Returns the names of all token vocabularies used by this grammar.
+     */
+    public get tokenVocabularies(): string[] {
+        let result: string[] = [];
+        for (let symbol of this.symbolTable.getAllSymbols(TokenVocabSymbol, true)) {
+            result.push(symbol.name);
+        }
+        return result;
+    }
+
     /**
      * Returns the lexical range of the closest symbol scope that covers the given location.
      * @param ruleScope if true find the enclosing rule (if any) and return it's range, instead of the directly enclosing scope.
@@ -149,11 +322,118 @@ export class SourceContext {
         return this.symbolTable.listSymbols(includeDependencies);
     }
 
+    /**
+     * Builds the symbol outline of this grammar. Symbols are placed into the block (tokens, channels, options),
+     * mode or rule in which they are defined. Alternative labels and named actions are taken from the parse tree,
+     * as there are no symbols for them.
+     */
+    public getDocumentSymbols(): DocumentSymbol[] {
+        if (!this.tree || !this.tree.identifier()) {
+            return [];
+        }
+
+        let root: DocumentSymbol = {
+            name: this.tree.identifier().text,
+            kind: SymbolKind.Grammar,
+            range: rangeFromContext(this.tree),
+            nameRange: rangeFromToken(this.tree.identifier().start),
+            children: []
+        };
+
+        // Entries which can contain other entries, by the context which defines them.
+        let containers: Map<ParseTree, DocumentSymbol> = new Map();
+        let entries: [ParseTree, DocumentSymbol][] = [];
+        let addEntry = (context: ParserRuleContext, name: string, kind: SymbolKind, nameToken: Token) => {
+            let entry: DocumentSymbol = {
+                name: name, kind: kind, range: rangeFromContext(context), nameRange: rangeFromToken(nameToken),
+                children: []
+            };
+            entries.push([context, entry]);
+            containers.set(context, entry);
+            return entry;
+        };
+
+        for (let symbol of this.symbolTable.children) {
+            let context = symbol.context;
+            if (!(context instanceof ParserRuleContext)) {
+                continue;
+            }
+
+            let kind = this.symbolTable.getKindFromSymbol(symbol);
+            if (symbol instanceof OptionsSymbol) {
+                // Rule level options are not listed.
+                if (context.parent instanceof PrequelConstructContext) {
+                    addEntry(context, "options", SymbolKind.OptionsBlock, context.start);
+                }
+            } else if (symbol instanceof TokenVocabSymbol || symbol instanceof ImportSymbol
+                || symbol instanceof VirtualTokenSymbol || symbol instanceof TokenChannelSymbol
+                || symbol instanceof LexerModeSymbol || symbol instanceof TokenSymbol || symbol instanceof RuleSymbol) {
+                addEntry(context, symbol.name, kind, nameTokenForContext(context)!);
+            }
+        }
+
+        for (let prequel of this.tree.prequelConstruct()) {
+            let tokensSpec = prequel.tokensSpec();
+            if (tokensSpec) {
+                addEntry(tokensSpec, "tokens", SymbolKind.TokensBlock, tokensSpec.start);
+            }
+            let channelsSpec = prequel.channelsSpec();
+            if (channelsSpec) {
+                addEntry(channelsSpec, "channels", SymbolKind.ChannelsBlock, channelsSpec.start);
+            }
+            let namedAction = prequel.namedAction();
+            if (namedAction) {
+                let scope = namedAction.actionScopeName();
+                let name = "@" + (scope ? scope.text + "::" : "") + namedAction.identifier().text;
+                addEntry(namedAction, name, SymbolKind.Action, namedAction.identifier().start);
+            }
+        }
+
+        for (let node of Trees.findAllRuleNodes(this.tree, ANTLRv4Parser.RULE_labeledAlt)) {
+            let identifier = (node as LabeledAltContext).identifier();
+            if (identifier) {
+                addEntry(node as LabeledAltContext, identifier.text, SymbolKind.AlternativeLabel, identifier.start);
+            }
+        }
+
+        // Now that all containers are known, move each entry into its closest container.
+        for (let [context, entry] of entries) {
+            let container = root;
+            for (let run = context.parent; run; run = run.parent) {
+                let candidate = containers.get(run);
+                if (candidate) {
+                    container = candidate;
+                    break;
+                }
+            }
+            container.children.push(entry);
+        }
+
+        let sortChildren = (entry: DocumentSymbol) => {
+            entry.children.sort((lhs, rhs) => {
+                if (lhs.range.start.row == rhs.range.start.row) {
+                    return lhs.range.start.column - rhs.range.start.column;
+                }
+                return lhs.range.start.row - rhs.range.start.row;
+            });
+            entry.children.forEach(sortChildren);
+        };
+        sortChildren(root);
+
+        return [root];
+    }
+
     public getCodeCompletionCandidates(column: number, row: number): SymbolInfo[] {
         if (!this.parser) {
             return [];
         }
 
+        // Action code is not parsed, so attribute references (`$name`) are handled separately.
+        let attributeCandidates = this.attributeCandidatesAtPosition(column, row);
+        if (attributeCandidates) {
+            return attributeCandidates;
+        }
+
         let core = new CodeCompletionCore(this.parser);
         core.showResult = false;
         core.ignoredTokens = new Set([
@@ -297,6 +577,8 @@ export class SourceContext {
             result.push(info);
         });
 
+        result.push(...this.snippetCandidates(candidates.tokens));
+
         candidates.rules.forEach((callStack, key) => {
             switch (key) {
                 case ANTLRv4Parser.RULE_argActionBlock: {
@@ -351,8 +633,8 @@ export class SourceContext {
                 }
 
                 case ANTLRv4Parser.RULE_lexerCommandName: {
-                    ["channel", "skip", "more", "mode", "push", "pop"].forEach(symbol => {
-                        result.push({ kind: SymbolKind.Keyword, name: symbol, source: this.fileName, definition: undefined, description: undefined });
+                    lexerCommands.forEach((description, symbol) => {
+                        result.push({ kind: SymbolKind.Keyword, name: symbol, source: this.fileName, definition: undefined, description: description });
                     });
                     break;
                 }
@@ -369,12 +651,31 @@ export class SourceContext {
                     // More concrete identifiers should be captured by rules further up in the call chain.
                     switch (callStack[callStack.length - 1]) {
                         case ANTLRv4Parser.RULE_option: {
-                            ["superClass", "tokenVocab", "TokenLabelType", "contextSuperClass", "exportMacro"].forEach(symbol => {
-                                result.push({ kind: SymbolKind.Option, name: symbol, source: this.fileName, definition: undefined, description: undefined });
+                            // Rule options are specified after the rule name (in rule prequels for parser rules).
+                            let isRuleOption = callStack.indexOf(ANTLRv4Parser.RULE_rulePrequel) > -1
+                                || callStack.indexOf(ANTLRv4Parser.RULE_lexerRuleSpec) > -1;
+                            (isRuleOption ? ruleOptions : grammarOptions).forEach((description, symbol) => {
+                                result.push({ kind: SymbolKind.Option, name: symbol, source: this.fileName, definition: undefined, description: description });
                             });
                             break;
                         }
 
+                        case ANTLRv4Parser.RULE_optionValue: {
+                            let [assign, option] = this.precedingTokens(index, 2);
+                            if (assign && assign.type == ANTLRv4Lexer.ASSIGN && option) {
+                                result.push(...this.optionValueCandidates(option.text!));
+                            }
+                            break;
+                        }
+
+                        case ANTLRv4Parser.RULE_lexerCommandExpr: {
+                            let [parenthesis, command] = this.precedingTokens(index, 2);
+                            if (parenthesis && parenthesis.type == ANTLRv4Lexer.LPAREN && command) {
+                                result.push(...this.lexerCommandArgumentCandidates(command.text!));
+                            }
+                            break;
+                        }
+
                         case ANTLRv4Parser.RULE_namedAction: {
                             ["header", "members", "preinclude", "postinclude", "context", "declarations", "definitions",
                                 "listenerpreinclude", "listenerpostinclude", "listenerdeclarations", "listenermembers", "listenerdefinitions",
@@ -398,6 +699,258 @@ export class SourceContext {
         return result;
     }
 
+    /**
+     * Returns the symbols which can be referenced by an attribute reference in a rule action, if the given position
+     * follows a `$` (optionally with a partial name) in an action or argument block of a rule. These are the
+     * parameters, return values, locals and labels of a parser rule and the built-in attributes (e.g. `$text`).
+     * Otherwise undefined is returned.
+     */
+    private attributeCandidatesAtPosition(column: number, row: number): SymbolInfo[] | undefined {
+        if (!this.tree) {
+            return undefined;
+        }
+
+        this.tokenStream.fill();
+        let index = -1;
+        for (let i = 0; i < this.tokenStream.size; ++i) {
+            let token = this.tokenStream.get(i);
+            if (token.type == Token.EOF || token.line > row) {
+                break;
+            }
+            if (token.line == row && token.charPositionInLine < column) {
+                index = i;
+            }
+        }
+
+        // Action and argument content is lexed char by char.
+        while (index >= 0) {
+            let token = this.tokenStream.get(index);
+            if (token.type != ANTLRv4Lexer.ACTION_CONTENT && token.type != ANTLRv4Lexer.ARGUMENT_CONTENT) {
+                return undefined;
+            }
+            if (token.text == "$") {
+                break;
+            }
+            if (!/^[a-zA-Z0-9_]$/.test(token.text || "")) {
+                return undefined;
+            }
+            --index;
+        }
+        if (index < 0) {
+            return undefined;
+        }
+
+        let blocks = Trees.findAllRuleNodes(this.tree, ANTLRv4Parser.RULE_actionBlock);
+        blocks.push(...Trees.findAllRuleNodes(this.tree, ANTLRv4Parser.RULE_argActionBlock));
+        let block = blocks.find(candidate => {
+            let context = candidate as ParserRuleContext;
+            return context.start.tokenIndex < index && context.stop !== undefined && context.stop.tokenIndex > index;
+        });
+
+        let ruleContext = this.ruleContextFor(block);
+        let ruleSymbol = ruleContext ? this.symbolTable.symbolWithContext(ruleContext) : undefined;
+        if (!(ruleSymbol instanceof ScopedSymbol)) {
+            return undefined;
+        }
+
+        // Labels can be assigned more than once in a rule, but are listed only once.
+        let result: SymbolInfo[] = [];
+        let names = new Set<string>();
+        for (let symbol of ruleSymbol.getNestedSymbolsOfType(VariableSymbol)) {
+            if (!names.has(symbol.name)) {
+                names.add(symbol.name);
+                result.push(this.symbolTable.getSymbolInfo(symbol)!);
+            }
+        }
+
+        let attributes = ruleContext instanceof LexerRuleSpecContext ? lexerRuleAttributes : parserRuleAttributes;
+        attributes.forEach((description, name) => {
+            result.push({
+                kind: SymbolKind.Keyword,
+                name: name,
+                source: this.fileName,
+                definition: undefined,
+                description: description
+            });
+        });
+        return result;
+    }
+
+    /**
+     * Returns snippets for entire constructs (rules, modes, options blocks and lexer commands), depending on which
+     * tokens can follow at the completion position.
+     */
+    private snippetCandidates(tokens: Map<number, number[]>): SymbolInfo[] {
+        let snippets: [SymbolKind, string, string, string][] = []; // Kind, name, snippet and description.
+
+        // A fragment keyword can appear wherever a new rule can start. That is also the case where exception
+        // handlers of a parser rule are possible (they are optional).
+        if (tokens.has(ANTLRv4Lexer.FRAGMENT) || tokens.has(ANTLRv4Lexer.CATCH)) {
+            if (this.grammarType != GrammarType.Lexer) {
+                snippets.push([SymbolKind.ParserRule, "parser rule", "${1:name}\n\t: ${0}\n\t;",
+                    "A new parser rule"]);
+            }
+            if (this.grammarType != GrammarType.Parser) {
+                snippets.push([SymbolKind.LexerToken, "lexer rule", "${1:Name}\n\t: ${0}\n\t;",
+                    "A new lexer rule"]);
+                snippets.push([SymbolKind.FragmentLexerToken, "fragment rule", "fragment ${1:Name}\n\t: ${0}\n\t;",
+                    "A new fragment lexer rule"]);
+            }
+            if (this.grammarType == GrammarType.Lexer) {
+                snippets.push([SymbolKind.LexerMode, "mode section", "mode ${1:Name};\n\n${0}",
+                    "A new lexer mode with its rules"]);
+            }
+        }
+
+        if (tokens.has(ANTLRv4Lexer.OPTIONS)) {
+            snippets.push([SymbolKind.OptionsBlock, "options block", "options {\n\t${1:name} = ${2:value};\n}",
+                "An options block"]);
+        }
+
+        if (tokens.has(ANTLRv4Lexer.RARROW)) {
+            snippets.push([SymbolKind.Operator, "-> channel(HIDDEN)", "-> channel(${1:HIDDEN})",
+                "Put the token on a channel"]);
+            snippets.push([SymbolKind.Operator, "-> skip", "-> skip", "Discard the token"]);
+        }
+
+        return snippets.map(([kind, name, snippet, description]) => {
+            return {
+                kind: kind,
+                name: name,
+                source: this.fileName,
+                definition: undefined,
+                description: description,
+                snippet: snippet
+            };
+        });
+    }
+
+    /**
+     * Returns the possible values for the given grammar or rule option.
+     */
+    private optionValueCandidates(option: string): SymbolInfo[] {
+        let result: SymbolInfo[] = [];
+        switch (option) {
+            case "tokenVocab": {
+                // Any grammar in the folder of this grammar can provide the token vocabulary.
+                let folder = path.dirname(this.fileName);
+                let files = fs.existsSync(folder) ? fs.readdirSync(folder) : [];
+                for (let file of files.sort()) {
+                    let name = path.basename(file, ".g4");
+                    if (path.extname(file) == ".g4" && path.join(folder, file) != path.normalize(this.fileName)) {
+                        result.push({
+                            kind: SymbolKind.TokenVocab,
+                            name: name,
+                            source: path.join(folder, file),
+                            definition: undefined,
+                            description: undefined
+                        });
+                    }
+                }
+                break;
+            }
+
+            case "language": {
+                targetLanguages.forEach(language => {
+                    result.push({
+                        kind: SymbolKind.Keyword,
+                        name: language,
+                        source: this.fileName,
+                        definition: undefined,
+                        description: undefined
+                    });
+                });
+                break;
+            }
+
+            case "caseInsensitive": {
+                ["true", "false"].forEach(value => {
+                    result.push({
+                        kind: SymbolKind.Keyword,
+                        name: value,
+                        source: this.fileName,
+                        definition: undefined,
+                        description: undefined
+                    });
+                });
+                break;
+            }
+
+            case "superClass":
+            case "contextSuperClass": {
+                // Class names cannot be known, except for the default base classes.
+                let name = option == "contextSuperClass" ? "ParserRuleContext"
+                    : this.grammarType == GrammarType.Lexer ? "Lexer" : "Parser";
+                result.push({
+                    kind: SymbolKind.Keyword,
+                    name: name,
+                    source: this.fileName,
+                    definition: undefined,
+                    description: "The default base class"
+                });
+                break;
+            }
+        }
+        return result;
+    }
+
+    /**
+     * Returns the symbols which can be passed to the given lexer command (e.g. modes for `pushMode`).
+     */
+    private lexerCommandArgumentCandidates(command: string): SymbolInfo[] {
+        let symbols: Symbol[] = [];
+        switch (command) {
+            case "channel": {
+                symbols.push(...this.symbolTable.getAllSymbols(BuiltInChannelSymbol));
+                symbols.push(...this.symbolTable.getAllSymbols(TokenChannelSymbol));
+                break;
+            }
+
+            case "mode":
+            case "pushMode": {
+                symbols.push(...this.symbolTable.getAllSymbols(BuiltInModeSymbol));
+                symbols.push(...this.symbolTable.getAllSymbols(LexerModeSymbol));
+                break;
+            }
+
+            case "type": {
+                symbols.push(...this.symbolTable.getAllSymbols(VirtualTokenSymbol));
+                symbols.push(...this.symbolTable.getAllSymbols(TokenSymbol));
+                break;
+            }
+        }
+
+        // Built-in symbols are found via each dependency, so remove duplicates.
+        let result: SymbolInfo[] = [];
+        for (let symbol of symbols) {
+            if (!result.some(entry => entry.name == symbol.name)) {
+                result.push({
+                    kind: this.symbolTable.getKindFromSymbol(symbol),
+                    name: symbol.name,
+                    source: this.fileName,
+                    definition: undefined,
+                    description: undefined
+                });
+            }
+        }
+        return result;
+    }
+
+    /**
+     * Returns up to `count` tokens on the default channel, which precede the token with the given index
+     * (nearest first).
+     */
+    private precedingTokens(index: number, count: number): Token[] {
+        let result: Token[] = [];
+        for (let i = index - 1; i >= 0 && result.length < count; --i) {
+            let token = this.tokenStream.get(i);
+            if (token.channel == Token.DEFAULT_CHANNEL) {
+                result.push(token);
+            }
+        }
+        return result;
+    }
+
     /**
      * Should be called on every change to keep the input stream up to date particularly for code completion.
      * This call doesn't do any expensive processing (parse() does).
@@ -411,6 +964,7 @@ export class SourceContext {
         lexer.addErrorListener(this.lexerErrorListener);
         this.tokenStream = new CommonTokenStream(lexer);
         this.parser = undefined;
+        this.suppressions = undefined;
     }
 
     public parse(): string[] {
@@ -451,6 +1005,9 @@ export class SourceContext {
             }
         }
 
+        // So far the diagnostics only contain errors reported by the lexer and the parser.
+        this.hasSyntaxErrors = this.diagnostics.length > 0;
+
         if (this.tree && this.tree.childCount > 0) {
             try {
                 let typeContext = this.tree.grammarType();
@@ -468,112 +1025,1476 @@ export class SourceContext {
         let listener: DetailsListener = new DetailsListener(this.symbolTable, this.imports);
         ParseTreeWalker.DEFAULT.walk(listener as ParseTreeListener, this.tree);
 
-        return this.imports;
+        return this.imports;
+    }
+
+    /**
+     * Returns the diagnostics of this grammar, including warnings for unused and unreachable rules, errors for rule
+     * cycles, the results of the lexer analysis and warnings for literals without a token. These depend on the given
+     * dependents (which may use the rules and tokens of this grammar), on the dependencies, the interpreter data and
+     * the entry rules, so they are determined anew on each call (and are not stored with the other diagnostics).
+     * They are skipped if the grammar has syntax errors, because the parse tree is not reliable then. Other errors
+     * (e.g. unknown symbols) don't prevent these checks.
+     *
+     * @param vocabularyLiterals The literal token names (literal -> token name) read from the .tokens files of the
+     *                           token vocabularies of this grammar, keyed by vocabulary name.
+     * @param lintRules Additional lint rules, whose checks are run after the built-in ones. Their problems are
+     *                  reported as warnings, the caller applies the configured severity.
+     */
+    public getDiagnostics(dependents: SourceContext[] = [],
+        vocabularyLiterals = new Map<string, Map<string, string>>(), lintRules: LintRule[] = []): DiagnosticEntry[] {
+        this.runSemanticAnalysisIfNeeded();
+
+        let computed: DiagnosticEntry[] = [];
+        if (this.tree && !this.hasSyntaxErrors) {
+            computed.push(...this.usageDiagnostics(dependents));
+            computed.push(...this.cycleDiagnostics());
+            computed.push(...this.lexerDiagnostics());
+            computed.push(...this.literalDiagnostics(vocabularyLiterals));
+
+            for (let rule of lintRules) {
+                for (let problem of rule.check(this, this.tree)) {
+                    computed.push(Object.assign({}, problem, { type: DiagnosticType.Warning, code: rule.id }));
+                }
+            }
+        }
+
+        return this.diagnostics.concat(computed);
+    }
+
+    /**
+     * Determines if diagnostics of the given lint rule are suppressed at the given row by (line, block or doc)
+     * comments in this grammar.
+     * `graps-disable-next-line` suppresses the rules in the line after the comment only, while `graps-disable`
+     * suppresses them from the comment on, until a `graps-enable` comment re-enables them. Each takes a list of rule
+     * ids (all rules if none is given), optionally followed by an explanation after `--`.
+     */
+    public isSuppressed(id: string, row: number): boolean {
+        if (!this.suppressions) {
+            this.suppressions = [];
+            this.tokenStream.fill();
+            for (let token of this.tokenStream.getTokens()) {
+                let text = token.text || "";
+                if (token.type == ANTLRv4Lexer.LINE_COMMENT) {
+                    text = text.substr(2);
+                } else if (token.type == ANTLRv4Lexer.BLOCK_COMMENT) {
+                    text = text.substr(2, text.length - 4);
+                } else if (token.type == ANTLRv4Lexer.DOC_COMMENT) {
+                    text = text.substr(3, text.length - 5);
+                } else {
+                    continue;
+                }
+
+                let content = text.trim();
+                if (!content.startsWith(suppressionIntroducer)) {
+                    continue;
+                }
+                content = content.substr(suppressionIntroducer.length);
+                let groups = /^(disable-next-line|disable|enable)(?:\s+([\s\S]*))?$/.exec(content);
+                if (!groups) {
+                    continue;
+                }
+
+                let ids = (groups[2] || "").split("--")[0].split(/[\s,]+/).filter(entry => entry.length > 0);
+                let lineCount = text.split("\n").length;
+                this.suppressions.push({
+                    kind: groups[1],
+                    row: groups[1] == "disable-next-line" ? token.line + lineCount : token.line,
+                    ids: ids
+                });
+            }
+        }
+
+        let result = false;
+        for (let suppression of this.suppressions) {
+            if (suppression.row > row || (suppression.ids.length > 0 && suppression.ids.indexOf(id) == -1)) {
+                continue;
+            }
+
+            switch (suppression.kind) {
+                case "disable-next-line": {
+                    if (suppression.row == row) {
+                        return true;
+                    }
+                    break;
+                }
+
+                default: {
+                    result = suppression.kind == "disable";
+                    break;
+                }
+            }
+        }
+        return result;
+    }
+
+    /**
+     * Checks for parser rules which are never used or not reachable from the entry rules, fragment rules which are
+     * never used and tokens which are used by no parser rule (if there's a parser for them).
+     */
+    private usageDiagnostics(dependents: SourceContext[]): DiagnosticEntry[] {
+        let result: DiagnosticEntry[] = [];
+
+        let addWarning = (code: DiagnosticCode, message: string, token: Token) => {
+            result.push({ type: DiagnosticType.Warning, message: message, range: rangeFromToken(token), code: code });
+        };
+
+        let references = this.ruleReferences();
+        let dependentReferences = dependents.map(dependent => dependent.ruleReferences());
+
+        // Rules used by other rules of this grammar or by rules of grammars importing this one.
+        let usedRules = new Set<string>();
+        let usedLexerRules = new Set<string>();
+        for (let entry of [references, ...dependentReferences]) {
+            entry.parserRules.forEach((referenced, rule) => {
+                referenced.forEach(name => { if (name != rule) { usedRules.add(name); } });
+            });
+            entry.lexerRules.forEach((referenced, rule) => {
+                referenced.forEach(name => { if (name != rule) { usedLexerRules.add(name); } });
+            });
+        }
+
+        let parserRules = Trees.findAllRuleNodes(this.tree!,
+            ANTLRv4Parser.RULE_parserRuleSpec) as ParserRuleSpecContext[];
+        if (parserRules.length > 0) {
+            let entryRules = (this.entryRules || []).filter(name => references.parserRules.has(name));
+            if (entryRules.length == 0) {
+                entryRules = [parserRules[0].RULE_REF().text];
+            }
+
+            // Rules used by other grammars are reachable as well.
+            let reachable = new Set<string>(entryRules);
+            for (let entry of dependentReferences) {
+                entry.parserRules.forEach(referenced => referenced.forEach(name => reachable.add(name)));
+            }
+            let pending = Array.from(reachable);
+            while (pending.length > 0) {
+                let referenced = references.parserRules.get(pending.pop()!);
+                if (referenced) {
+                    referenced.forEach(name => {
+                        if (!reachable.has(name)) {
+                            reachable.add(name);
+                            pending.push(name);
+                        }
+                    });
+                }
+            }
+
+            for (let rule of parserRules) {
+                let name = rule.RULE_REF().text;
+                if (entryRules.indexOf(name) > -1) {
+                    continue;
+                }
+
+                if (!usedRules.has(name)) {
+                    addWarning(DiagnosticCode.UnusedParserRule, "Parser rule '" + name + "' is never used",
+                        rule.RULE_REF().symbol);
+                } else if (!reachable.has(name)) {
+                    addWarning(DiagnosticCode.UnreachableRule, "Parser rule '" + name
+                        + "' is not reachable from the entry rule(s) " + entryRules.join(", "), rule.RULE_REF().symbol);
+                }
+            }
+        }
+
+        // Tokens can only be checked if there's a parser using them.
+        let parsers = dependents.filter(dependent => dependent.grammarType != GrammarType.Lexer);
+        let checkTokens = this.grammarType == GrammarType.Combined
+            || (this.grammarType == GrammarType.Lexer && parsers.length > 0);
+        let usedTokens = new Set<string>(references.tokens);
+        for (let parser of parsers) {
+            parser.ruleReferences().tokens.forEach(name => usedTokens.add(name));
+        }
+
+        let lexerRules = Trees.findAllRuleNodes(this.tree!, ANTLRv4Parser.RULE_lexerRuleSpec) as LexerRuleSpecContext[];
+        for (let rule of lexerRules) {
+            let name = rule.TOKEN_REF().text;
+            if (rule.FRAGMENT()) {
+                if (!usedLexerRules.has(name)) {
+                    addWarning(DiagnosticCode.UnusedFragment, "Fragment rule '" + name + "' is never used",
+                        rule.TOKEN_REF().symbol);
+                }
+            } else if (checkTokens && !usedTokens.has(name)) {
+                // Tokens which are skipped, hidden or get a different type are not meant to be used by a parser.
+                let commands = Trees.findAllRuleNodes(rule, ANTLRv4Parser.RULE_lexerCommandName).map(node => node.text);
+                if (!commands.some(command => ["skip", "more", "channel", "type"].indexOf(command) > -1)) {
+                    addWarning(DiagnosticCode.UnusedToken, "Token '" + name + "' is not used by any parser rule",
+                        rule.TOKEN_REF().symbol);
+                }
+            }
+        }
+
+        return result;
+    }
+
+    /**
+     * Checks for indirect left recursion (which ANTLR does not support) and for cycles of rules which can never match
+     * any input, because each of their alternatives references another rule of the cycle. Rules from imported grammars
+     * take part in the analysis, but only cycles which include a rule of this grammar are reported.
+     */
+    private cycleDiagnostics(): DiagnosticEntry[] {
+        let rules = new Map<string, ParserRuleDefinition>();
+        this.collectParserRules(rules, new Set());
+
+        let alternatives = (name: string) => {
+            return rules.get(name)!.context.ruleBlock().ruleAltList().labeledAlt().map(alt => alt.alternative());
+        };
+
+        // Determine the rules which can match empty input and those which can match any input at all.
+        let nullable = new Set<string>();
+        let productive = new Set<string>();
+        let changed = true;
+        while (changed) {
+            changed = false;
+            for (let name of rules.keys()) {
+                if (!nullable.has(name) && alternatives(name).some(alt => alternativeIsNullable(alt, nullable))) {
+                    nullable.add(name);
+                    changed = true;
+                }
+                if (!productive.has(name)
+                    && alternatives(name).some(alt => alternativeIsProductive(alt, rules, productive))) {
+                    productive.add(name);
+                    changed = true;
+                }
+            }
+        }
+
+        // Direct left recursion is supported by ANTLR, hence such references are not part of the left edges.
+        let leftEdges = new Map<string, RulerefContext[]>();
+        let unproductiveEdges = new Map<string, RulerefContext[]>();
+        for (let name of rules.keys()) {
+            let references: RulerefContext[] = [];
+            alternatives(name).forEach(alt => references.push(...leftReferences(alt, nullable)));
+            leftEdges.set(name, references.filter(reference => {
+                let referenced = reference.RULE_REF().text;
+                return referenced != name && rules.has(referenced);
+            }));
+
+            if (!productive.has(name)) {
+                references = Trees.findAllRuleNodes(rules.get(name)!.context,
+                    ANTLRv4Parser.RULE_ruleref) as RulerefContext[];
+                unproductiveEdges.set(name, references.filter(reference => {
+                    let referenced = reference.RULE_REF().text;
+                    return rules.has(referenced) && !productive.has(referenced);
+                }));
+            }
+        }
+
+        let result: DiagnosticEntry[] = [];
+        let addCycles = (edges: Map<string, RulerefContext[]>, code: DiagnosticCode, message: string) => {
+            let reported = new Set<string>();
+            rules.forEach((definition, name) => {
+                if (definition.source != this || reported.has(name)) {
+                    return;
+                }
+
+                let cycle = findCycle(name, edges);
+                if (cycle) {
+                    let path = [name, ...cycle.map(reference => reference.RULE_REF().text)];
+                    path.forEach(entry => reported.add(entry));
+                    result.push({
+                        type: DiagnosticType.Error,
+                        message: message + path.join(" -> "),
+                        range: rangeFromToken(definition.context.RULE_REF().symbol),
+                        code: code,
+                        related: cycle.map((reference, index) => {
+                            return {
+                                source: rules.get(path[index])!.source.fileName,
+                                range: rangeFromToken(reference.RULE_REF().symbol),
+                                message: "'" + path[index] + "' references '" + path[index + 1] + "'"
+                            };
+                        })
+                    });
+                }
+            });
+        };
+
+        addCycles(leftEdges, DiagnosticCode.IndirectLeftRecursion,
+            "Indirect left recursion (not supported by ANTLR): ");
+        addCycles(unproductiveEdges, DiagnosticCode.NonProductiveCycle,
+            "These rules can never match any input, because they only reference each other: ");
+
+        return result;
+    }
+
+    /**
+     * Collects the parser rules of this grammar and the grammars it depends on. Rules defined in this grammar
+     * override those with the same name in imported grammars.
+     */
+    private collectParserRules(rules: Map<string, ParserRuleDefinition>, visited: Set<SourceContext>) {
+        if (!this.tree || visited.has(this)) {
+            return;
+        }
+        visited.add(this);
+
+        for (let node of Trees.findAllRuleNodes(this.tree, ANTLRv4Parser.RULE_parserRuleSpec)) {
+            let context = node as ParserRuleSpecContext;
+            if (!rules.has(context.RULE_REF().text)) {
+                rules.set(context.RULE_REF().text, { context: context, source: this });
+            }
+        }
+
+        for (let dependency of this.references) {
+            dependency.collectParserRules(rules, visited);
+        }
+    }
+
+    /**
+     * Checks for lexer rules which can never produce a token, because an earlier rule in the same mode matches all
+     * of their input, and for rules which can match some of the input of an earlier rule (except if the earlier rule
+     * only matches a part of the input of the later one, like a keyword defined before an identifier rule).
+     * The lexer ATN from the interpreter data is used, if loaded. Otherwise the rules are taken from the parse tree.
+     */
+    private lexerDiagnostics(): DiagnosticEntry[] {
+        let result: DiagnosticEntry[] = [];
+        if (this.grammarType != GrammarType.Lexer && this.grammarType != GrammarType.Combined) {
+            return result;
+        }
+
+        let analysis = this.lexerAnalysis();
+        if (!analysis.conflicts) {
+            analysis.conflicts = analysis.analyzer.analyze();
+        }
+
+        let ownRules = new Map<string, LexerRuleSpecContext>();
+        for (let node of Trees.findAllRuleNodes(this.tree!, ANTLRv4Parser.RULE_lexerRuleSpec)) {
+            ownRules.set((node as LexerRuleSpecContext).TOKEN_REF().text, node as LexerRuleSpecContext);
+        }
+
+        for (let conflict of analysis.conflicts) {
+            let rule = ownRules.get(conflict.rule);
+            let other = ownRules.get(conflict.other);
+            if (!rule || !other) { // Implicit tokens or rules from imported grammars.
+                continue;
+            }
+
+            let shadowed = conflict.kind == LexerConflictKind.Shadowed;
+            let message: string;
+            if (shadowed) {
+                message = "Token '" + conflict.rule + "' can never be matched, because the earlier rule '"
+                    + conflict.other + "' matches all of its input (e.g. " + conflict.example + ")";
+            } else if (conflict.exact) {
+                message = "Tokens '" + conflict.other + "' and '" + conflict.rule + "' can match the same input (e.g. "
+                    + conflict.example + "), for which the earlier rule '" + conflict.other + "' wins";
+            } else {
+                message = "Tokens '" + conflict.other + "' and '" + conflict.rule + "' might match the same input "
+                    + "(e.g. " + conflict.example + ")";
+            }
+            result.push({
+                type: shadowed ? DiagnosticType.Warning : DiagnosticType.Info,
+                message: message,
+                range: rangeFromToken(rule.TOKEN_REF().symbol),
+                code: shadowed ? DiagnosticCode.ShadowedToken : DiagnosticCode.OverlappingTokens,
+                related: [{
+                    source: this.fileName,
+                    range: rangeFromToken(other.TOKEN_REF().symbol),
+                    message: "'" + conflict.other + "' is defined here"
+                }]
+            });
+        }
+
+        return result;
+    }
+
+    /**
+     * Checks the literals in the parser rules of a parser grammar, for which no token exists in the token vocabulary.
+     * ANTLR creates implicit tokens only in combined grammars, so such literals let the code generation fail.
+     * Vocabularies whose grammar is not loaded are taken from the given .tokens file literals. Without any of both
+     * the literals cannot be checked.
+     */
+    private literalDiagnostics(vocabularyLiterals: Map<string, Map<string, string>>): DiagnosticEntry[] {
+        let result: DiagnosticEntry[] = [];
+        let vocabularies = this.tokenVocabularies;
+        if (this.grammarType != GrammarType.Parser || vocabularies.length == 0) {
+            return result;
+        }
+
+        let knownLiterals = this.knownLiterals(vocabularyLiterals);
+        if (!knownLiterals) {
+            return result;
+        }
+
+        for (let rule of this.symbolTable.getAllSymbols(RuleSymbol, true)) {
+            for (let symbol of (rule as RuleSymbol).getNestedSymbolsOfType(LiteralSymbol)) {
+                let terminal = symbol.context as TerminalNode;
+                if (!terminal || knownLiterals.has(terminal.text)) {
+                    continue;
+                }
+
+                let message = "No token is defined for the literal " + terminal.text
+                    + " and implicit tokens are only created in combined grammars";
+                let token = this.vocabularyTokenForLiteral(terminal.text);
+                if (token) {
+                    message += ". The lexer produces '" + token + "' for it";
+                }
+                result.push({
+                    type: DiagnosticType.Warning, message: message, range: rangeFromToken(terminal.symbol),
+                    code: DiagnosticCode.ImplicitToken
+                });
+            }
+        }
+
+        return result;
+    }
+
+    /**
+     * Returns the token names for all literals of this grammar, its dependencies and the given .tokens file literals
+     * of token vocabularies whose grammar is not loaded. Returns undefined if the literals of a vocabulary are not
+     * available at all, in which case the result is incomplete.
+     */
+    private knownLiterals(vocabularyLiterals: Map<string, Map<string, string>>): Map<string, string> | undefined {
+        let result = this.literalTokens(new Set());
+        let complete = true;
+        for (let vocabulary of this.tokenVocabularies) {
+            let loaded = this.references.some(context => {
+                return path.basename(context.fileName, path.extname(context.fileName)) == vocabulary;
+            });
+            if (!loaded) {
+                let literals = vocabularyLiterals.get(vocabulary);
+                if (!literals) {
+                    complete = false;
+                    continue;
+                }
+                literals.forEach((name, literal) => {
+                    if (!result.has(literal)) {
+                        result.set(literal, name);
+                    }
+                });
+            }
+        }
+
+        return complete ? result : undefined;
+    }
+
+    /**
+     * Returns the token the lexer grammar of the token vocabulary (if loaded) produces for the given literal, i.e. the
+     * first of its rules which matches the literal completely.
+     */
+    private vocabularyTokenForLiteral(literal: string): string | undefined {
+        let lexer = this.references.find(context => context.grammarType == GrammarType.Lexer);
+        if (!lexer || !lexer.tree) {
+            return undefined;
+        }
+
+        return lexer.lexerAnalysis().analyzer.tokenForLiteral(literal);
+    }
+
+    /**
+     * Returns the lexer analyzer for this grammar and the conflicts found by it (if already determined, see
+     * `lexerDiagnostics()`). Both are expensive to compute, so they are kept as long as their input (the rules)
+     * doesn't change.
+     */
+    private lexerAnalysis(): LexerAnalysis {
+        let rules = new Map<string, LexerRuleSpecContext>();
+        this.collectLexerRules(rules, new Set());
+        let inputs: object[] = [this.tree!, ...rules.values()];
+        if (this.grammarLexerData) {
+            inputs.push(this.grammarLexerData);
+        }
+
+        let cache = this.lexerAnalysisCache;
+        if (!cache || cache.inputs.length != inputs.length || cache.inputs.some((entry, i) => entry !== inputs[i])) {
+            cache = { inputs: inputs, analyzer: this.createLexerAnalyzer(rules) };
+            this.lexerAnalysisCache = cache;
+        }
+        return cache;
+    }
+
+    /**
+     * Creates a lexer analyzer for this grammar, which uses the lexer ATN from the interpreter data, if loaded.
+     * Otherwise the given rules (those of this grammar and its dependencies) are used.
+     */
+    private createLexerAnalyzer(rules: Map<string, LexerRuleSpecContext>): LexerAnalyzer {
+        if (this.grammarLexerData) {
+            return LexerAnalyzer.fromATN(this.grammarLexerData);
+        }
+
+        let modes = new Map<string, LexerRuleSpecContext[]>();
+        let defaultRules = this.tree!.rules().ruleSpec().map(rule => rule.lexerRuleSpec());
+        defaultRules = defaultRules.filter(rule => rule != undefined);
+        modes.set("DEFAULT_MODE", (defaultRules as LexerRuleSpecContext[]).filter(rule => !rule.FRAGMENT()));
+        for (let mode of this.tree!.modeSpec()) {
+            modes.set(mode.identifier().text, mode.lexerRuleSpec().filter(rule => !rule.FRAGMENT()));
+        }
+
+        let caseInsensitive = this.tree!.prequelConstruct().some(prequel => {
+            let options = prequel.optionsSpec();
+            return options != undefined && options.option().some(option => {
+                return option.identifier().text == "caseInsensitive" && option.optionValue().text == "true";
+            });
+        });
+        return LexerAnalyzer.fromParseTree(modes, rules, caseInsensitive);
+    }
+
+    /**
+     * Collects the lexer rules (including fragments) of this grammar and the grammars it depends on. Rules defined in
+     * this grammar override those with the same name in imported grammars.
+     */
+    private collectLexerRules(rules: Map<string, LexerRuleSpecContext>, visited: Set<SourceContext>) {
+        if (!this.tree || visited.has(this)) {
+            return;
+        }
+        visited.add(this);
+
+        for (let node of Trees.findAllRuleNodes(this.tree, ANTLRv4Parser.RULE_lexerRuleSpec)) {
+            let context = node as LexerRuleSpecContext;
+            if (!rules.has(context.TOKEN_REF().text)) {
+                rules.set(context.TOKEN_REF().text, context);
+            }
+        }
+
+        for (let dependency of this.references) {
+            dependency.collectLexerRules(rules, visited);
+        }
+    }
+
+    /**
+     * Collects the rules referenced by each parser and lexer rule of this grammar and the tokens used in parser rules
+     * (either directly or via a literal).
+     */
+    private ruleReferences(): RuleReferences {
+        let result: RuleReferences = { parserRules: new Map(), lexerRules: new Map(), tokens: new Set() };
+        if (!this.tree) {
+            return result;
+        }
+
+        let literalTokens = this.literalTokens(new Set());
+        for (let node of Trees.findAllRuleNodes(this.tree, ANTLRv4Parser.RULE_parserRuleSpec)) {
+            let rule = node as ParserRuleSpecContext;
+            let referenced = new Set<string>();
+            for (let ruleref of Trees.findAllRuleNodes(rule, ANTLRv4Parser.RULE_ruleref)) {
+                referenced.add((ruleref as RulerefContext).RULE_REF().text);
+            }
+            result.parserRules.set(rule.RULE_REF().text, referenced);
+
+            for (let token of Trees.findAllTokenNodes(rule, ANTLRv4Lexer.TOKEN_REF)) {
+                result.tokens.add(token.text);
+            }
+            for (let literal of Trees.findAllTokenNodes(rule, ANTLRv4Lexer.STRING_LITERAL)) {
+                let name = literalTokens.get(literal.text);
+                if (name) {
+                    result.tokens.add(name);
+                }
+            }
+        }
+
+        for (let node of Trees.findAllRuleNodes(this.tree, ANTLRv4Parser.RULE_lexerRuleSpec)) {
+            let rule = node as LexerRuleSpecContext;
+            let referenced = new Set<string>();
+            for (let token of Trees.findAllTokenNodes(rule.lexerRuleBlock(), ANTLRv4Lexer.TOKEN_REF)) {
+                referenced.add(token.text);
+            }
+            result.lexerRules.set(rule.TOKEN_REF().text, referenced);
+        }
+
+        return result;
+    }
+
+    // Returns all rules with a reference count of 0.
+    public getUnreferencedRules(): string[] {
+        return this.symbolTable.getUnreferencedSymbols();
+    }
+
+    public getReferenceGraph(): Map<string, ReferenceNode> {
+        this.runSemanticAnalysisIfNeeded();
+
+        let result = new Map();
+        for (let symbol of this.symbolTable.getAllSymbols(Symbol, false)) {
+            if (symbol instanceof RuleSymbol
+                || symbol instanceof TokenSymbol
+                || symbol instanceof FragmentTokenSymbol) {
+                let entry: ReferenceNode = {
+                    kind: symbol instanceof RuleSymbol ? SymbolKind.ParserRule : SymbolKind.LexerToken,
+                    rules: [],
+                    tokens: [],
+                    literals: []
+                };
+
+                for (let child of symbol.getNestedSymbolsOfType(RuleReferenceSymbol)) {
+                    let resolved = this.symbolTable.resolve(child.name, false);
+                    if (resolved) {
+                        entry.rules.push(resolved.qualifiedName());
+                    } else {
+                        entry.rules.push(child.name);
+                    }
+                }
+
+                for (let child of symbol.getNestedSymbolsOfType(TokenReferenceSymbol)) {
+                    let resolved = this.symbolTable.resolve(child.name, false);
+                    if (resolved) {
+                        entry.tokens.push(resolved.qualifiedName());
+                    } else {
+                        entry.tokens.push(child.name);
+                    }
+                }
+
+                for (let child of symbol.getNestedSymbolsOfType(LiteralSymbol)) {
+                    let resolved = this.symbolTable.resolve(child.name, false);
+                    if (resolved) {
+                        entry.literals.push(resolved.qualifiedName());
+                    } else {
+                        entry.literals.push(child.name);
+                    }
+                }
+
+                result.set(symbol.qualifiedName(), entry);
+            } else if (symbol instanceof BuiltInTokenSymbol) {
+                result.set(symbol.qualifiedName(), { kind: SymbolKind.BuiltInLexerToken, rules: [], tokens: [], literals: [] });
+            } else if (symbol instanceof VirtualTokenSymbol) {
+                result.set(symbol.qualifiedName(), { kind: SymbolKind.VirtualLexerToken, rules: [], tokens: [], literals: [] });
+            }
+        }
+        return result;
+    }
+
+    public getRRDScript(ruleName: string): string | undefined {
+        this.runSemanticAnalysisIfNeeded();
+
+        return this.rrdScripts.get(ruleName)!;
+    }
+
+    public addDependency(context: SourceContext) {
+        // Check for mutual inclusion. Since dependencies are organized like a mesh
+        // we use a work pipeline to check all relevant referencing contexts.
+        var pipeline: SourceContext[] = [context];
+        while (pipeline.length > 0) {
+            let current = pipeline.shift();
+            if (!current) {
+                continue;
+            }
+
+            if (current.references.indexOf(this) > -1) {
+                return; // Already in the list.
+                // TODO: add diagnostic entry for this case.
+            }
+
+            pipeline.push(...current.references);
+        }
+        this.references.push(context);
+        this.symbolTable.addDependencies(context.symbolTable);
+    }
+
+    /**
+     * Remove the given context from our list of dependencies.
+     */
+    public removeDependency(context: SourceContext) {
+        let index = context.references.indexOf(this);
+        if (index > -1) {
+            context.references.splice(index, 1);
+        }
+        this.symbolTable.removeDependency(context.symbolTable);
+    }
+
+    public getReferenceCount(symbol: string): number {
+        return this.symbolTable.getReferenceCount(symbol);
+    }
+
+    /**
+     * Returns the locations of all references to the given symbol in this context (not including the definition).
+     */
+    public getReferenceLocations(symbol: string): SymbolLocation[] {
+        this.runSemanticAnalysisIfNeeded();
+
+        let result: SymbolLocation[] = [];
+        for (let range of this.symbolTable.getReferenceRanges(symbol)) {
+            result.push({ source: this.fileName, range: range });
+        }
+        return result;
+    }
+
+    /**
+     * Returns the ranges of all occurrences of the given symbol in this context: the name in its definition
+     * (if defined here), all references and all attribute references in actions (e.g. `$ID.text`).
+     * For rule local symbols (labels) only the rule which contains the symbol is searched.
+     */
+    public getSymbolOccurrences(symbol: Symbol): LexicalRange[] {
+        this.runSemanticAnalysisIfNeeded();
+
+        let result: LexicalRange[] = [];
+        if (!this.tree) {
+            return result;
+        }
+
+        if (symbol instanceof VariableSymbol) {
+            // A label can be defined more than once in a rule (e.g. `el += INT (Comma el += INT)*`).
+            let ruleContext = symbol.symbolTable === this.symbolTable ? this.ruleContextFor(symbol.context) : undefined;
+            if (ruleContext) {
+                for (let node of Trees.findAllRuleNodes(ruleContext, ANTLRv4Parser.RULE_labeledElement)) {
+                    let identifier = (node as LabeledElementContext).identifier();
+                    if (identifier.text === symbol.name) {
+                        result.push(rangeFromToken(identifier.start));
+                    }
+                }
+                if (symbol instanceof RuleVariableSymbol) {
+                    result.push(symbol.nameRange);
+                }
+                result.push(...this.attributeOccurrences(ruleContext, symbol.name, true));
+            }
+            return result;
+        }
+
+        // Global symbols must resolve to the same definition here.
+        if (this.symbolTable.resolve(symbol.name) !== symbol) {
+            return result;
+        }
+
+        if (symbol.symbolTable === this.symbolTable) {
+            let token = nameTokenForContext(symbol.context);
+            if (token) {
+                result.push(rangeFromToken(token));
+            }
+        }
+        result.push(...this.symbolTable.getReferenceRanges(symbol.name));
+        if (symbol instanceof RuleSymbol || symbol instanceof TokenSymbol || symbol instanceof VirtualTokenSymbol) {
+            result.push(...this.attributeOccurrences(this.tree, symbol.name, false));
+        }
+        return result;
+    }
+
+    /**
+     * Returns the name of the alternative label (e.g. `# Return`) at the given position, if there's one.
+     */
+    public alternativeLabelFromPosition(column: number, row: number): string | undefined {
+        let terminal = parseTreeFromPosition(this.tree!, column, row);
+        if (terminal && terminal.parent instanceof IdentifierContext
+            && terminal.parent.parent instanceof LabeledAltContext) {
+            return terminal.text;
+        }
+        return undefined;
+    }
+
+    /**
+     * Returns the ranges of all alternative labels with the given name.
+     */
+    public getAlternativeLabelOccurrences(name: string): LexicalRange[] {
+        let result: LexicalRange[] = [];
+        if (this.tree) {
+            for (let node of Trees.findAllRuleNodes(this.tree, ANTLRv4Parser.RULE_labeledAlt)) {
+                let identifier = (node as LabeledAltContext).identifier();
+                if (identifier && identifier.text === name) {
+                    result.push(rangeFromToken(identifier.start));
+                }
+            }
+        }
+        return result;
+    }
+
+    /**
+     * Returns all occurrences of the symbol (or alternative label) at the given position in this grammar, sorted
+     * by position. Names in definitions (including label assignments) are marked as such, everything else is
+     * a reference.
+     */
+    public getDocumentHighlights(column: number, row: number): DocumentHighlight[] {
+        let alternativeLabel = this.alternativeLabelFromPosition(column, row);
+        if (alternativeLabel) {
+            return this.getAlternativeLabelOccurrences(alternativeLabel).map(range => {
+                return { range: range, kind: DocumentHighlightKind.Definition };
+            });
+        }
+
+        let symbol = this.symbolFromPosition(column, row);
+        if (!symbol) {
+            return [];
+        }
+
+        let nameToken = symbol.symbolTable === this.symbolTable ? nameTokenForContext(symbol.context) : undefined;
+        let result = this.getSymbolOccurrences(symbol).map(range => {
+            let kind = DocumentHighlightKind.Reference;
+            let terminal = parseTreeFromPosition(this.tree!, range.start.column, range.start.row);
+            if (symbol instanceof RuleVariableSymbol && range === symbol.nameRange) {
+                kind = DocumentHighlightKind.Definition;
+            } else if (terminal instanceof TerminalNode) {
+                if (terminal.symbol === nameToken || (terminal.parent instanceof IdentifierContext
+                    && terminal.parent.parent instanceof LabeledElementContext)) {
+                    kind = DocumentHighlightKind.Definition;
+                }
+            }
+            return { range: range, kind: kind };
+        });
+
+        return result.sort((lhs, rhs) => {
+            if (lhs.range.start.row != rhs.range.start.row) {
+                return lhs.range.start.row - rhs.range.start.row;
+            }
+            return lhs.range.start.column - rhs.range.start.column;
+        });
+    }
+
+    /**
+     * Returns the foldable regions in this grammar: rules, options/tokens/channels blocks, named and inline actions,
+     * modes and comments (multi line comments and groups of line comments on consecutive lines).
+     */
+    public getFoldingRanges(): FoldingRange[] {
+        let result: FoldingRange[] = [];
+        if (!this.tree) {
+            return result;
+        }
+
+        let add = (kind: FoldingRangeKind, start: Token, stop: Token | undefined) => {
+            let range: LexicalRange = {
+                start: rangeFromToken(start).start,
+                end: rangeFromToken(stop || start).end
+            };
+            if (range.end.row > range.start.row) {
+                result.push({ range: range, kind: kind });
+            }
+        };
+
+        // Rules start at their name (or fragment keyword), so that a doc comment can be folded separately.
+        for (let node of Trees.findAllRuleNodes(this.tree, ANTLRv4Parser.RULE_parserRuleSpec)) {
+            let rule = node as ParserRuleSpecContext;
+            let start = rule.ruleModifiers() ? rule.ruleModifiers()!.start : rule.RULE_REF().symbol;
+            add(FoldingRangeKind.Rule, start, rule.stop);
+        }
+        for (let node of Trees.findAllRuleNodes(this.tree, ANTLRv4Parser.RULE_lexerRuleSpec)) {
+            let rule = node as LexerRuleSpecContext;
+            add(FoldingRangeKind.Rule, rule.FRAGMENT() ? rule.FRAGMENT()!.symbol : rule.TOKEN_REF().symbol, rule.stop);
+        }
+
+        let blocks: [number, FoldingRangeKind][] = [
+            [ANTLRv4Parser.RULE_optionsSpec, FoldingRangeKind.Block],
+            [ANTLRv4Parser.RULE_tokensSpec, FoldingRangeKind.Block],
+            [ANTLRv4Parser.RULE_channelsSpec, FoldingRangeKind.Block],
+            [ANTLRv4Parser.RULE_namedAction, FoldingRangeKind.Action],
+            [ANTLRv4Parser.RULE_ruleAction, FoldingRangeKind.Action],
+            [ANTLRv4Parser.RULE_actionBlock, FoldingRangeKind.Action],
+            [ANTLRv4Parser.RULE_modeSpec, FoldingRangeKind.Mode],
+        ];
+        for (let [ruleIndex, kind] of blocks) {
+            for (let node of Trees.findAllRuleNodes(this.tree, ruleIndex)) {
+                let context = node as ParserRuleContext;
+                if (ruleIndex == ANTLRv4Parser.RULE_actionBlock && context.parent
+                    && (context.parent.ruleIndex == ANTLRv4Parser.RULE_namedAction
+                        || context.parent.ruleIndex == ANTLRv4Parser.RULE_ruleAction)) {
+                    continue; // Already covered by the named action.
+                }
+                add(kind, context.start, context.stop);
+            }
+        }
+
+        // Comments are not part of the parse tree, so take them from the token stream.
+        this.tokenStream.fill();
+        let firstLineComment: Token | undefined;
+        let lastLineComment: Token | undefined;
+        for (let token of this.tokenStream.getTokens()) {
+            if (token.type == ANTLRv4Lexer.LINE_COMMENT && this.startsLine(token)) {
+                if (!lastLineComment || token.line != lastLineComment.line + 1) {
+                    if (firstLineComment) {
+                        add(FoldingRangeKind.Comment, firstLineComment, lastLineComment);
+                    }
+                    firstLineComment = token;
+                }
+                lastLineComment = token;
+            } else if (token.type == ANTLRv4Lexer.BLOCK_COMMENT || token.type == ANTLRv4Lexer.DOC_COMMENT) {
+                add(FoldingRangeKind.Comment, token, token);
+            }
+        }
+        if (firstLineComment) {
+            add(FoldingRangeKind.Comment, firstLineComment, lastLineComment);
+        }
+
+        return result.sort((lhs, rhs) => {
+            if (lhs.range.start.row != rhs.range.start.row) {
+                return lhs.range.start.row - rhs.range.start.row;
+            }
+            return lhs.range.start.column - rhs.range.start.column;
+        });
+    }
+
+    /**
+     * Classifies the identifiers in this grammar (optionally limited to the given range) and returns them in
+     * the relative encoding used for semantic tokens in the language server protocol (see
+     * `AntlrLanguageSupport.getSemanticTokens()`). Symbols defined here are unused if they are neither referenced
+     * in this grammar nor in any of the given dependent grammars.
+     */
+    public getSemanticTokens(dependents: SourceContext[], range?: LexicalRange): number[] {
+        this.runSemanticAnalysisIfNeeded();
+        for (let dependent of dependents) {
+            dependent.runSemanticAnalysisIfNeeded();
+        }
+
+        let result: number[] = [];
+        if (!this.tree) {
+            return result;
+        }
+
+        type Entry = { row: number, column: number, length: number, type: SemanticTokenType, modifiers: number };
+        let entries: Entry[] = [];
+
+        let nodes = Trees.findAllTokenNodes(this.tree, ANTLRv4Parser.TOKEN_REF);
+        nodes.push(...Trees.findAllTokenNodes(this.tree, ANTLRv4Parser.RULE_REF));
+        for (let node of nodes) {
+            let token = (node as TerminalNode).symbol;
+            let classification = this.classifyIdentifier(node as TerminalNode, dependents);
+            if (classification) {
+                entries.push({
+                    row: token.line, column: token.charPositionInLine, length: token.text!.length,
+                    type: classification[0], modifiers: classification[1]
+                });
+            }
+        }
+
+        // Attribute references in actions (e.g. `$ID.text` or `$label`).
+        let blocks = Trees.findAllRuleNodes(this.tree, ANTLRv4Parser.RULE_actionBlock);
+        blocks.push(...Trees.findAllRuleNodes(this.tree, ANTLRv4Parser.RULE_argActionBlock));
+        for (let block of blocks) {
+            for (let reference of attributeReferencesFromContext(block as ParserRuleContext)) {
+                let symbol = this.resolveLocalSymbol(block, reference.name);
+                if (!symbol) {
+                    symbol = this.symbolTable.resolve(reference.name);
+                }
+                let type = symbol ? SourceContext.semanticTokenTypeFromSymbol(symbol) : undefined;
+                if (type != undefined) {
+                    entries.push({
+                        row: reference.range.start.row, column: reference.range.start.column,
+                        length: reference.name.length, type: type, modifiers: this.importModifier(symbol!)
+                    });
+                }
+            }
+
+            // Declarations of rule parameters, return values and locals.
+            for (let variable of this.declaredVariables(block)) {
+                entries.push({
+                    row: variable.nameRange.start.row, column: variable.nameRange.start.column,
+                    length: variable.name.length, type: SemanticTokenType.Parameter,
+                    modifiers: SemanticTokenModifier.Definition
+                });
+            }
+        }
+
+        if (range) {
+            entries = entries.filter(entry => {
+                if (entry.row < range.start.row
+                    || (entry.row == range.start.row && entry.column < range.start.column)) {
+                    return false;
+                }
+                return entry.row < range.end.row || (entry.row == range.end.row && entry.column < range.end.column);
+            });
+        }
+
+        entries.sort((lhs, rhs) => lhs.row != rhs.row ? lhs.row - rhs.row : lhs.column - rhs.column);
+
+        // Rows are one-based, so the first delta is relative to the (virtual) row 1.
+        let lastRow = 1;
+        let lastColumn = 0;
+        for (let entry of entries) {
+            result.push(entry.row - lastRow, entry.row == lastRow ? entry.column - lastColumn : entry.column,
+                entry.length, entry.type, entry.modifiers);
+            lastRow = entry.row;
+            lastColumn = entry.column;
+        }
+
+        return result;
+    }
+
+    /**
+     * Returns the rules in this grammar which call the given rule symbol (which must resolve to the same symbol
+     * here), with the ranges of the call sites.
+     */
+    public getIncomingCalls(symbol: Symbol): CallHierarchyCall[] {
+        let result: CallHierarchyCall[] = [];
+        if (!this.tree) {
+            return result;
+        }
+
+        let rules = Trees.findAllRuleNodes(this.tree, ANTLRv4Parser.RULE_parserRuleSpec);
+        rules.push(...Trees.findAllRuleNodes(this.tree, ANTLRv4Parser.RULE_lexerRuleSpec));
+        for (let rule of rules) {
+            let ranges: LexicalRange[] = [];
+            for (let token of this.callsInRule(rule as ParserRuleContext)) {
+                if (token.text === symbol.name) {
+                    ranges.push(rangeFromToken(token));
+                }
+            }
+
+            let caller = this.symbolTable.symbolWithContext(rule);
+            let item = caller ? SourceContext.callHierarchyItem(caller) : undefined;
+            if (item && ranges.length > 0) {
+                result.push({ rule: item, callRanges: ranges });
+            }
+        }
+
+        return result.sort((lhs, rhs) => lhs.rule.range.start.row - rhs.rule.range.start.row);
+    }
+
+    /**
+     * Returns the rules (parser rules, tokens and fragments) called by the given rule, in the order of
+     * their first call. Rules without a definition (e.g. EOF or unknown rules) are ignored.
+     */
+    public getOutgoingCalls(rule: string): CallHierarchyCall[] {
+        let symbol = this.symbolTable.resolve(rule, true);
+        if (!symbol || !(symbol.context instanceof ParserRuleContext)) {
+            return [];
+        }
+
+        let calls: Map<Symbol, CallHierarchyCall> = new Map();
+        for (let token of this.callsInRule(symbol.context)) {
+            let target = this.symbolTable.resolve(token.text!);
+            let item = target ? SourceContext.callHierarchyItem(target) : undefined;
+            if (item) {
+                let call = calls.get(target!);
+                if (!call) {
+                    call = { rule: item, callRanges: [] };
+                    calls.set(target!, call);
+                }
+                call.callRanges.push(rangeFromToken(token));
+            }
+        }
+        return Array.from(calls.values());
+    }
+
+    /**
+     * Returns the parameters of the rule, whose reference has an argument block containing the given position.
+     * The active parameter is determined by the number of (top level) commas before that position.
+     */
+    public getSignatureHelp(column: number, row: number): SignatureHelp | undefined {
+        if (!this.tree) {
+            return undefined;
+        }
+
+        // The position must be after the opening bracket and not after the closing one.
+        let block = Trees.findAllRuleNodes(this.tree, ANTLRv4Parser.RULE_argActionBlock).find(node => {
+            let context = node as ArgActionBlockContext;
+            if (!(context.parent instanceof RulerefContext) || !context.stop) {
+                return false;
+            }
+
+            let start = context.start;
+            let stop = context.stop;
+            if (row < start.line || (row == start.line && column <= start.charPositionInLine)) {
+                return false;
+            }
+            return row < stop.line || (row == stop.line && column <= stop.charPositionInLine);
+        }) as ArgActionBlockContext | undefined;
+        if (!block) {
+            return undefined;
+        }
+
+        let name = (block.parent as RulerefContext).RULE_REF().text;
+        let symbol = this.symbolTable.resolve(name);
+        if (!(symbol instanceof RuleSymbol)) {
+            return undefined;
+        }
+
+        let activeParameter = 0;
+        let depth = 0;
+        for (let child of block.children!) {
+            if (!(child instanceof TerminalNode) || child.symbol === block.start) {
+                continue;
+            }
+
+            let token = child.symbol;
+            if (token.line > row || (token.line == row && token.charPositionInLine >= column)) {
+                break;
+            }
+            if ("([{<".indexOf(token.text!) > -1) {
+                ++depth;
+            } else if (")]}>".indexOf(token.text!) > -1) {
+                --depth;
+            } else if (token.text == "," && depth == 0) {
+                ++activeParameter;
+            }
+        }
+
+        let parameters = symbol.getNestedSymbolsOfType(ParameterSymbol).map(parameter => parameter.definition.text);
+        let symbolTable = symbol.symbolTable as GrapsSymbolTable;
+        return {
+            rule: name,
+            signature: name + "[" + parameters.join(", ") + "]",
+            parameters: parameters,
+            activeParameter: activeParameter,
+            description: symbolTable.owner ? symbolTable.owner.documentationForSymbol(symbol) : undefined
+        };
+    }
+
+    /**
+     * Returns a code lens for each rule in this grammar, in the order of their definition. References are counted
+     * in this grammar and in the given dependent grammars.
+     */
+    public getCodeLenses(dependents: SourceContext[]): CodeLens[] {
+        this.runSemanticAnalysisIfNeeded();
+        for (let dependent of dependents) {
+            dependent.runSemanticAnalysisIfNeeded();
+        }
+
+        let result: CodeLens[] = [];
+        if (!this.tree) {
+            return result;
+        }
+
+        let rules = Trees.findAllRuleNodes(this.tree, ANTLRv4Parser.RULE_parserRuleSpec);
+        rules.push(...Trees.findAllRuleNodes(this.tree, ANTLRv4Parser.RULE_lexerRuleSpec));
+        for (let rule of rules) {
+            let context = rule as ParserRuleContext;
+            let nameToken = nameTokenForContext(context);
+            let symbol = this.symbolTable.symbolWithContext(context);
+            if (!nameToken || !symbol) {
+                continue;
+            }
+
+            let count = this.getReferenceCount(symbol.name);
+            for (let dependent of dependents) {
+                count += dependent.getReferenceCount(symbol.name);
+            }
+
+            let lens: CodeLens = {
+                rule: symbol.name,
+                kind: this.symbolTable.getKindFromSymbol(symbol),
+                range: rangeFromContext(context),
+                referenceCount: count,
+                actions: [
+                    { kind: CodeLensActionKind.RailroadDiagram, title: "Show railroad diagram" },
+                    { kind: CodeLensActionKind.ATNGraph, title: "Show ATN graph" },
+                    { kind: CodeLensActionKind.SentenceGeneration, title: "Generate sentences" }
+                ]
+            };
+            if (symbol instanceof RuleSymbol) {
+                lens.actions.push({ kind: CodeLensActionKind.Debug, title: "Debug from here" });
+            }
+            result.push(lens);
+        }
+
+        return result.sort((lhs, rhs) => {
+            if (lhs.range.start.row != rhs.range.start.row) {
+                return lhs.range.start.row - rhs.range.start.row;
+            }
+            return lhs.range.start.column - rhs.range.start.column;
+        });
+    }
+
+    /**
+     * Returns a chain of nested ranges for each of the given positions, starting with the token at the position and
+     * going up the parse tree (element, alternative, block, rule, ...) to the entire grammar. Parse tree nodes which
+     * cover the same range as their child are skipped.
+     */
+    public getSelectionRanges(positions: { column: number, row: number }[]): SelectionRange[] {
+        return positions.map(position => {
+            let tree = this.tree ? parseTreeFromPosition(this.tree, position.column, position.row) : undefined;
+            let ranges: LexicalRange[] = [];
+            while (tree) {
+                let range = tree instanceof TerminalNode ? rangeFromToken(tree.symbol)
+                    : rangeFromContext(tree as ParserRuleContext);
+                let last = ranges[ranges.length - 1];
+                if (!last || last.start.row != range.start.row || last.start.column != range.start.column
+                    || last.end.row != range.end.row || last.end.column != range.end.column) {
+                    ranges.push(range);
+                }
+                tree = tree.parent;
+            }
+
+            if (ranges.length == 0) {
+                return { range: { start: position, end: position } };
+            }
+
+            let result: SelectionRange | undefined;
+            for (let i = ranges.length - 1; i >= 0; --i) {
+                let entry: SelectionRange = { range: ranges[i] };
+                if (result) {
+                    entry.parent = result;
+                }
+                result = entry;
+            }
+            return result!;
+        });
+    }
+
+    /**
+     * Returns the token names of all literals in parser rules and the effective token type, channel and mode switches
+     * of all lexer rules with lexer commands. If a range is given only hints within that range are returned.
+     * Vocabularies whose grammar is not loaded are taken from the given .tokens file literals. Literals without token
+     * are only marked if all vocabularies are available.
+     */
+    public getInlayHints(vocabularyLiterals: Map<string, Map<string, string>>, range?: LexicalRange): InlayHint[] {
+        let result: InlayHint[] = [];
+        if (!this.tree) {
+            return result;
+        }
+
+        let knownLiterals = this.knownLiterals(vocabularyLiterals);
+        let literalTokens = knownLiterals || this.literalTokens(new Set());
+        for (let rule of Trees.findAllRuleNodes(this.tree, ANTLRv4Parser.RULE_parserRuleSpec)) {
+            for (let node of Trees.findAllTokenNodes(rule, ANTLRv4Lexer.STRING_LITERAL)) {
+                let terminal = node as TerminalNode;
+                let parent = terminal.parent;
+                if (!(parent instanceof TerminalRuleContext) && !(parent instanceof SetElementContext)) {
+                    continue; // A literal in element options.
+                }
+
+                let position = rangeFromToken(terminal.symbol).end;
+                let tokenName = literalTokens.get(terminal.text);
+                if (tokenName) {
+                    result.push({ position: position, label: tokenName, kind: InlayHintKind.TokenName });
+                } else if (this.grammarType == GrammarType.Combined) {
+                    result.push({
+                        position: position, label: "implicit", kind: InlayHintKind.ImplicitToken,
+                        tooltip: "No lexer rule matches this literal. ANTLR creates an implicit token for it."
+                    });
+                } else if (knownLiterals) {
+                    result.push({
+                        position: position, label: "undefined", kind: InlayHintKind.ImplicitToken,
+                        tooltip: "No lexer rule matches this literal and implicit tokens are only created "
+                            + "in combined grammars."
+                    });
+                }
+            }
+        }
+
+        for (let rule of Trees.findAllRuleNodes(this.tree, ANTLRv4Parser.RULE_lexerRuleSpec)) {
+            let context = rule as LexerRuleSpecContext;
+            if (context.FRAGMENT()) {
+                continue;
+            }
+
+            let type: string | undefined = context.TOKEN_REF().text;
+            let parts: string[] = [];
+            for (let alternative of context.lexerRuleBlock().lexerAltList().lexerAlt()) {
+                let commands = alternative.lexerCommands();
+                if (!commands) {
+                    continue;
+                }
+
+                for (let command of commands.lexerCommand()) {
+                    let name = command.lexerCommandName().text;
+                    let expression = command.lexerCommandExpr();
+                    switch (name) {
+                        case "type": {
+                            type = expression ? expression.text : type;
+                            break;
+                        }
+
+                        case "skip":
+                        case "more": {
+                            type = undefined;
+                            if (parts.indexOf(name) == -1) {
+                                parts.unshift(name);
+                            }
+                            break;
+                        }
+
+                        default: {
+                            let part = expression ? name + " " + expression.text : name;
+                            if (parts.indexOf(part) == -1) {
+                                parts.push(part);
+                            }
+                            break;
+                        }
+                    }
+                }
+            }
+
+            if (type != context.TOKEN_REF().text || parts.length > 0) {
+                if (type) {
+                    parts.unshift("type " + type);
+                }
+                result.push({
+                    position: rangeFromToken(context.TOKEN_REF().symbol).end,
+                    label: parts.join(", "),
+                    kind: InlayHintKind.TokenType
+                });
+            }
+        }
+
+        if (range) {
+            result = result.filter(hint => {
+                let position = hint.position;
+                if (position.row < range.start.row
+                    || (position.row == range.start.row && position.column < range.start.column)) {
+                    return false;
+                }
+                return position.row < range.end.row
+                    || (position.row == range.end.row && position.column <= range.end.column);
+            });
+        }
+
+        return result.sort((lhs, rhs) => {
+            if (lhs.position.row != rhs.position.row) {
+                return lhs.position.row - rhs.position.row;
+            }
+            return lhs.position.column - rhs.position.column;
+        });
+    }
+
+    /**
+     * Returns the token names for all literals, which are matched by a (non-fragment) lexer rule consisting of only
+     * that literal, in this grammar and its dependencies. The first definition wins.
+     */
+    private literalTokens(visited: Set<SourceContext>): Map<string, string> {
+        let result = new Map<string, string>();
+        if (!this.tree || visited.has(this)) {
+            return result;
+        }
+        visited.add(this);
+
+        for (let rule of Trees.findAllRuleNodes(this.tree, ANTLRv4Parser.RULE_lexerRuleSpec)) {
+            let context = rule as LexerRuleSpecContext;
+            let alternatives = context.lexerRuleBlock().lexerAltList().lexerAlt();
+            let elements = alternatives.length == 1 ? alternatives[0].lexerElements() : undefined;
+            if (context.FRAGMENT() || !elements || elements.lexerElement().length != 1) {
+                continue;
+            }
+
+            let element = elements.lexerElement(0);
+            let atom = element.lexerAtom();
+            let terminal = atom && !element.ebnfSuffix() ? atom.terminalRule() : undefined;
+            let literal = terminal ? terminal.STRING_LITERAL() : undefined;
+            if (literal && !result.has(literal.text)) {
+                result.set(literal.text, context.TOKEN_REF().text);
+            }
+        }
+
+        for (let dependency of this.references) {
+            for (let [literal, name] of dependency.literalTokens(visited)) {
+                if (!result.has(literal)) {
+                    result.set(literal, name);
+                }
+            }
+        }
+
+        return result;
     }
 
-    public getDiagnostics(): DiagnosticEntry[] {
-        this.runSemanticAnalysisIfNeeded();
+    /**
+     * Returns fixes for the given diagnostics of this grammar, which overlap the given range.
+     */
+    public getCodeActions(range: LexicalRange, diagnostics: DiagnosticEntry[]): CodeAction[] {
+        let result: CodeAction[] = [];
+        if (!this.tree) {
+            return result;
+        }
 
-        return this.diagnostics;
-    }
+        let addAction = (title: string, diagnostic: DiagnosticEntry, fileName: string, edit: TextEdit) => {
+            result.push({ title: title, diagnostic: diagnostic, changes: new Map([[fileName, [edit]]]) });
+        };
 
-    // Returns all rules with a reference count of 0.
-    public getUnreferencedRules(): string[] {
-        return this.symbolTable.getUnreferencedSymbols();
-    }
+        for (let diagnostic of diagnostics) {
+            if (!diagnostic.code || comparePositions(diagnostic.range.end, range.start) < 0
+                || comparePositions(diagnostic.range.start, range.end) > 0) {
+                continue;
+            }
 
-    public getReferenceGraph(): Map<string, ReferenceNode> {
-        this.runSemanticAnalysisIfNeeded();
+            let start = diagnostic.range.start;
+            let terminal = parseTreeFromPosition(this.tree, start.column, start.row);
+            if (!(terminal instanceof TerminalNode)) {
+                continue;
+            }
 
-        let result = new Map();
-        for (let symbol of this.symbolTable.getAllSymbols(Symbol, false)) {
-            if (symbol instanceof RuleSymbol
-                || symbol instanceof TokenSymbol
-                || symbol instanceof FragmentTokenSymbol) {
-                let entry: ReferenceNode = {
-                    kind: symbol instanceof RuleSymbol ? SymbolKind.ParserRule : SymbolKind.LexerToken,
-                    rules: [],
-                    tokens: [],
-                    literals: []
-                };
+            let name = terminal.text;
+            let rule: ParseTree | undefined = terminal.parent;
+            while (rule && !(rule instanceof ParserRuleSpecContext) && !(rule instanceof LexerRuleSpecContext)) {
+                rule = rule.parent;
+            }
 
-                for (let child of symbol.getNestedSymbolsOfType(RuleReferenceSymbol)) {
-                    let resolved = this.symbolTable.resolve(child.name, false);
-                    if (resolved) {
-                        entry.rules.push(resolved.qualifiedName());
-                    } else {
-                        entry.rules.push(child.name);
+            switch (diagnostic.code) {
+                case DiagnosticCode.UnknownParserRule: {
+                    if (rule) {
+                        let position = rangeFromContext(rule as ParserRuleContext).end;
+                        addAction("Create parser rule '" + name + "'", diagnostic, this.fileName,
+                            { range: { start: position, end: position }, newText: "\n\n" + name + ": ;" });
                     }
+                    break;
                 }
 
-                for (let child of symbol.getNestedSymbolsOfType(TokenReferenceSymbol)) {
-                    let resolved = this.symbolTable.resolve(child.name, false);
-                    if (resolved) {
-                        entry.tokens.push(resolved.qualifiedName());
-                    } else {
-                        entry.tokens.push(child.name);
+                case DiagnosticCode.UnknownToken: {
+                    // In a parser grammar the token must be added to the lexer grammar providing the vocabulary.
+                    let target: SourceContext | undefined = this;
+                    if (this.grammarType == GrammarType.Parser) {
+                        target = this.references.find(context => context.grammarType == GrammarType.Lexer);
+                    }
+                    if (target && target.tree) {
+                        let position = target.positionAfterRules();
+                        addAction("Create lexer token '" + name + "'", diagnostic, target.fileName,
+                            { range: { start: position, end: position }, newText: "\n\n" + name + ": ;" });
                     }
+                    break;
                 }
 
-                for (let child of symbol.getNestedSymbolsOfType(LiteralSymbol)) {
-                    let resolved = this.symbolTable.resolve(child.name, false);
-                    if (resolved) {
-                        entry.literals.push(resolved.qualifiedName());
-                    } else {
-                        entry.literals.push(child.name);
+                case DiagnosticCode.UnknownMode: {
+                    if (this.grammarType == GrammarType.Lexer) {
+                        let modes = this.tree.modeSpec();
+                        let position = modes.length > 0 ? rangeFromContext(modes[modes.length - 1]).end
+                            : this.positionAfterRules();
+                        addAction("Add mode '" + name + "'", diagnostic, this.fileName,
+                            { range: { start: position, end: position }, newText: "\n\nmode " + name + ";" });
                     }
+                    break;
                 }
 
-                result.set(symbol.qualifiedName(), entry);
-            } else if (symbol instanceof BuiltInTokenSymbol) {
-                result.set(symbol.qualifiedName(), { kind: SymbolKind.BuiltInLexerToken, rules: [], tokens: [], literals: [] });
-            } else if (symbol instanceof VirtualTokenSymbol) {
-                result.set(symbol.qualifiedName(), { kind: SymbolKind.VirtualLexerToken, rules: [], tokens: [], literals: [] });
-            }
-        }
-        return result;
-    }
-
-    public getRRDScript(ruleName: string): string | undefined {
-        this.runSemanticAnalysisIfNeeded();
+                case DiagnosticCode.UnknownChannel: {
+                    if (this.grammarType == GrammarType.Lexer) {
+                        addAction("Declare channel '" + name + "'", diagnostic, this.fileName,
+                            this.channelDeclarationEdit(name));
+                    }
+                    break;
+                }
 
-        return this.rrdScripts.get(ruleName)!;
-    }
+                case DiagnosticCode.ImplicitToken: {
+                    let token = this.vocabularyTokenForLiteral(name);
+                    if (token) {
+                        addAction("Replace with token '" + token + "'", diagnostic, this.fileName,
+                            { range: rangeFromToken(terminal.symbol), newText: token });
+                    }
+                    break;
+                }
 
-    public addDependency(context: SourceContext) {
-        // Check for mutual inclusion. Since dependencies are organized like a mesh
-        // we use a work pipeline to check all relevant referencing contexts.
-        var pipeline: SourceContext[] = [context];
-        while (pipeline.length > 0) {
-            let current = pipeline.shift();
-            if (!current) {
-                continue;
+                case DiagnosticCode.DuplicateSymbol: {
+                    if (rule) {
+                        // Remove the rule together with the whitespace before it.
+                        let context = rule as ParserRuleContext;
+                        let start = rangeFromContext(context).start;
+                        for (let index = context.start.tokenIndex - 1; index >= 0; --index) {
+                            let token = this.tokenStream.get(index);
+                            if (token.text && token.text.trim().length > 0) {
+                                start = rangeFromToken(token).end;
+                                break;
+                            }
+                        }
+                        addAction("Remove duplicate rule '" + name + "'", diagnostic, this.fileName,
+                            { range: { start: start, end: rangeFromContext(context).end }, newText: "" });
+                    }
+                    break;
+                }
             }
+        }
 
-            if (current.references.indexOf(this) > -1) {
-                return; // Already in the list.
-                // TODO: add diagnostic entry for this case.
-            }
+        return result;
+    }
 
-            pipeline.push(...current.references);
-        }
-        this.references.push(context);
-        this.symbolTable.addDependencies(context.symbolTable);
+    /**
+     * Returns the position after the last rule of the default mode (or after the grammar header, if there are
+     * no rules).
+     */
+    private positionAfterRules(): { column: number, row: number } {
+        let stop = this.tree!.rules().stop;
+        return rangeFromToken(stop ? stop : this.tree!.SEMI().symbol).end;
     }
 
     /**
-     * Remove the given context from our list of dependencies.
+     * Returns the edit to add the given channel to the channels section of this grammar, which is created if needed.
      */
-    public removeDependency(context: SourceContext) {
-        let index = context.references.indexOf(this);
-        if (index > -1) {
-            context.references.splice(index, 1);
+    private channelDeclarationEdit(name: string): TextEdit {
+        for (let prequel of this.tree!.prequelConstruct()) {
+            let channels = prequel.channelsSpec();
+            if (channels) {
+                let idList = channels.idList();
+                if (idList) {
+                    let position = rangeFromContext(idList).end;
+                    let newText = idList.stop!.type == ANTLRv4Lexer.COMMA ? " " + name : ", " + name;
+                    return { range: { start: position, end: position }, newText: newText };
+                }
+
+                return {
+                    range: {
+                        start: rangeFromToken(channels.LBRACE().symbol).end,
+                        end: rangeFromToken(channels.RBRACE().symbol).start
+                    },
+                    newText: " " + name + " "
+                };
+            }
         }
-        this.symbolTable.removeDependency(context.symbolTable);
-    }
 
-    public getReferenceCount(symbol: string): number {
-        return this.symbolTable.getReferenceCount(symbol);
+        let prequels = this.tree!.prequelConstruct();
+        let position = prequels.length > 0 ? rangeFromContext(prequels[prequels.length - 1]).end
+            : rangeFromToken(this.tree!.SEMI().symbol).end;
+        return { range: { start: position, end: position }, newText: "\n\nchannels { " + name + " }" };
     }
 
     /**
@@ -858,6 +2779,183 @@ export class SourceContext {
         return this.symbolTable.getSymbolInfo(symbol);
     }
 
+    /**
+     * Returns the documentation for the given symbol (which must be defined in this context), taken from the last
+     * doc comment (`/** ... *\/`) preceding a rule or token. Modes cannot have doc comments, so for them the ordinary
+     * comments directly preceding the mode declaration are used (no empty line in between).
+     */
+    public documentationForSymbol(symbol: Symbol): string | undefined {
+        let context = symbol.context;
+        if (context instanceof ParserRuleSpecContext || context instanceof LexerRuleSpecContext) {
+            let comments = context.DOC_COMMENT();
+            if (comments.length > 0) {
+                return documentationFromComment(comments[comments.length - 1].text);
+            }
+        } else if (context instanceof ModeSpecContext) {
+            let lines: string[] = [];
+            let hidden = this.tokenStream.getHiddenTokensToLeft(context.start.tokenIndex) || [];
+            let line = context.start.line;
+            for (let i = hidden.length - 1; i >= 0; --i) {
+                let token = hidden[i];
+                if (token.type == ANTLRv4Lexer.WS) {
+                    continue;
+                }
+
+                // Stop at an empty line or at a comment that trails other content on its line.
+                let lastLine = token.line + (token.text || "").split("\n").length - 1;
+                if (line - lastLine > 1 || !this.startsLine(token)) {
+                    break;
+                }
+
+                if (token.type == ANTLRv4Lexer.BLOCK_COMMENT || token.type == ANTLRv4Lexer.LINE_COMMENT
+                    || token.type == ANTLRv4Lexer.DOC_COMMENT) {
+                    lines.unshift(documentationFromComment(token.text!));
+                }
+                line = token.line;
+            }
+
+            if (lines.length > 0) {
+                return lines.join("\n");
+            }
+        }
+
+        return undefined;
+    }
+
+    /**
+     * Determines the semantic token type and modifiers for the given rule or token reference terminal. Identifiers
+     * which are no symbols (e.g. grammar names or action scopes) are not classified.
+     */
+    private classifyIdentifier(terminal: TerminalNode,
+        dependents: SourceContext[]): [SemanticTokenType, number] | undefined {
+        let parent = terminal.parent;
+        if (parent instanceof IdentifierContext) {
+            let context = parent.parent;
+            if ((context instanceof OptionContext && context.identifier() === parent)
+                || (context instanceof ElementOptionContext && context.identifier(0) === parent)) {
+                return [SemanticTokenType.Option, SemanticTokenModifier.None];
+            }
+            if (context instanceof LabeledElementContext || context instanceof LabeledAltContext) {
+                return [SemanticTokenType.Label, SemanticTokenModifier.Definition];
+            }
+            if (!(context instanceof IdListContext || context instanceof ModeSpecContext
+                || context instanceof LexerCommandExprContext)) {
+                return undefined;
+            }
+        }
+
+        let symbol = this.symbolTable.resolve(terminal.text);
+        let type = symbol ? SourceContext.semanticTokenTypeFromSymbol(symbol) : undefined;
+        if (type == undefined) {
+            return undefined;
+        }
+
+        let modifiers = this.importModifier(symbol!);
+        if (symbol!.symbolTable === this.symbolTable && nameTokenForContext(symbol!.context) === terminal.symbol) {
+            modifiers |= SemanticTokenModifier.Definition;
+
+            let count = this.getReferenceCount(symbol!.name);
+            for (let dependent of dependents) {
+                count += dependent.getReferenceCount(symbol!.name);
+            }
+            if (count == 0) {
+                modifiers |= SemanticTokenModifier.Unused;
+            }
+        }
+        return [type, modifiers];
+    }
+
+    /**
+     * Returns the imported modifier if the given symbol was defined in another (loaded) grammar.
+     */
+    private importModifier(symbol: Symbol): number {
+        let symbolTable = symbol.symbolTable as GrapsSymbolTable;
+        if (symbolTable && symbolTable !== this.symbolTable && symbolTable.owner) {
+            return SemanticTokenModifier.Imported;
+        }
+        return SemanticTokenModifier.None;
+    }
+
+    private static semanticTokenTypeFromSymbol(symbol: Symbol): SemanticTokenType | undefined {
+        if (symbol instanceof RuleSymbol) {
+            return SemanticTokenType.ParserRule;
+        }
+        if (symbol instanceof TokenSymbol) {
+            return SemanticTokenType.LexerToken;
+        }
+        if (symbol instanceof FragmentTokenSymbol) {
+            return SemanticTokenType.FragmentToken;
+        }
+        if (symbol instanceof VirtualTokenSymbol) {
+            return SemanticTokenType.VirtualToken;
+        }
+        if (symbol instanceof LexerModeSymbol) {
+            return SemanticTokenType.Mode;
+        }
+        if (symbol instanceof TokenChannelSymbol) {
+            return SemanticTokenType.Channel;
+        }
+        if (symbol instanceof RuleVariableSymbol) {
+            return SemanticTokenType.Parameter;
+        }
+        if (symbol instanceof VariableSymbol) {
+            return SemanticTokenType.Label;
+        }
+        if (symbol instanceof BuiltInTokenSymbol || symbol instanceof BuiltInModeSymbol
+            || symbol instanceof BuiltInChannelSymbol) {
+            return SemanticTokenType.BuiltIn;
+        }
+        return undefined;
+    }
+
+    /**
+     * Returns the name tokens of all rule and token references in the given rule, in the order they appear.
+     */
+    private callsInRule(rule: ParserRuleContext): Token[] {
+        let result: Token[] = [];
+        for (let node of Trees.findAllRuleNodes(rule, ANTLRv4Parser.RULE_ruleref)) {
+            result.push((node as RulerefContext).RULE_REF().symbol);
+        }
+        for (let node of Trees.findAllRuleNodes(rule, ANTLRv4Parser.RULE_terminalRule)) {
+            let tokenRef = (node as TerminalRuleContext).TOKEN_REF();
+            if (tokenRef) {
+                result.push(tokenRef.symbol);
+            }
+        }
+        return result.sort((lhs, rhs) => lhs.tokenIndex - rhs.tokenIndex);
+    }
+
+    /**
+     * Creates a call hierarchy item for the given symbol, if that is a rule defined in a grammar.
+     */
+    private static callHierarchyItem(symbol: Symbol): CallHierarchyItem | undefined {
+        let symbolTable = symbol.symbolTable as GrapsSymbolTable;
+        if (!(symbol instanceof RuleSymbol || symbol instanceof TokenSymbol || symbol instanceof FragmentTokenSymbol)
+            || !(symbol.context instanceof ParserRuleContext) || !symbolTable || !symbolTable.owner) {
+            return undefined;
+        }
+
+        return {
+            name: symbol.name,
+            kind: symbolTable.getKindFromSymbol(symbol),
+            source: symbolTable.owner.fileName,
+            range: rangeFromContext(symbol.context),
+            nameRange: rangeFromToken(nameTokenForContext(symbol.context)!)
+        };
+    }
+
+    /**
+     * Determines if the given token is the first one on its line (not counting leading whitespace).
+     */
+    private startsLine(token: Token): boolean {
+        if (token.tokenIndex <= 0) {
+            return true;
+        }
+
+        let previous = this.tokenStream.get(token.tokenIndex - 1);
+        return previous.line < token.line || (previous.type == ANTLRv4Lexer.WS && previous.charPositionInLine == 0);
+    }
+
     public resolveSymbol(symbolName: string): Symbol | undefined {
         return this.symbolTable.resolve(symbolName, false);
     }
@@ -965,6 +3063,65 @@ export class SourceContext {
         }
     }
 
+    /**
+     * Returns all attribute references (e.g. `$ID.text`) with the given name in actions and argument blocks
+     * below the given root. With `local` set to true only references to rule local symbols (e.g. labels)
+     * are returned, otherwise only those which do not refer to a rule local symbol.
+     */
+    private attributeOccurrences(root: ParseTree, name: string, local: boolean): LexicalRange[] {
+        let result: LexicalRange[] = [];
+        let blocks = Trees.findAllRuleNodes(root, ANTLRv4Parser.RULE_actionBlock);
+        blocks.push(...Trees.findAllRuleNodes(root, ANTLRv4Parser.RULE_argActionBlock));
+        for (let block of blocks) {
+            for (let reference of attributeReferencesFromContext(block as ParserRuleContext)) {
+                if (reference.name === name && (this.resolveLocalSymbol(block, name) !== undefined) === local) {
+                    result.push(reference.range);
+                }
+            }
+        }
+        return result;
+    }
+
+    /**
+     * Returns the parser or lexer rule context, which contains the given context.
+     */
+    private ruleContextFor(context: ParseTree | undefined): ParserRuleContext | undefined {
+        let run = context;
+        while (run && !(run instanceof ParserRuleSpecContext) && !(run instanceof LexerRuleSpecContext)) {
+            run = run.parent;
+        }
+        return run as ParserRuleContext | undefined;
+    }
+
+    /**
+     * Looks up a symbol with the given name, which is local to the rule containing the given context
+     * (e.g. a label).
+     */
+    public resolveLocalSymbol(context: ParseTree, name: string): Symbol | undefined {
+        let run = this.ruleContextFor(context);
+        let ruleSymbol = run ? this.symbolTable.symbolWithContext(run) : undefined;
+        if (ruleSymbol instanceof ScopedSymbol) {
+            for (let symbol of ruleSymbol.getNestedSymbolsOfType(VariableSymbol)) {
+                if (symbol.name === name) {
+                    return symbol;
+                }
+            }
+        }
+        return undefined;
+    }
+
+    /**
+     * Returns the rule variables (parameters, return values or locals) declared in the given argument block.
+     */
+    private declaredVariables(block: ParseTree): RuleVariableSymbol[] {
+        let ruleContext = this.ruleContextFor(block);
+        let ruleSymbol = ruleContext ? this.symbolTable.symbolWithContext(ruleContext) : undefined;
+        if (!(ruleSymbol instanceof ScopedSymbol)) {
+            return [];
+        }
+        return ruleSymbol.getNestedSymbolsOfType(RuleVariableSymbol).filter(symbol => symbol.context === block);
+    }
+
     /**
      * Convert an interval set in a list of ranges, consumable by a human.
      * @param set The set to convert.
@@ -1010,6 +3167,7 @@ export class SourceContext {
     //private diagnostics: DiagnosticEntry[] = [];
     private rrdScripts: Map<string, string>;
     private semanticAnalysisDone: boolean = false; // Includes determining reference counts.
+    private hasSyntaxErrors = false; // Set by `parse()`.
 
     // Grammar parsing infrastructure.
     private tokenStream: CommonTokenStream;
@@ -1020,6 +3178,8 @@ export class SourceContext {
     // Grammar data.
     private grammarType: GrammarType;
     private grammarLexerData: InterpreterData | undefined;
+    private lexerAnalysisCache: LexerAnalysis | undefined; // See `lexerAnalysis()`.
+    private suppressions: LintSuppression[] | undefined; // See `isSuppressed()`.
     private grammarLexerRuleMap: Map<string, number> = new Map();
     private grammarParserData: InterpreterData | undefined;
     private grammarParserRuleMap: Map<string, number> = new Map();
@@ -1028,6 +3188,17 @@ export class SourceContext {
     private imports: string[] = []; // Updated on each parse run.
 };
 
+/**
+ * Returns a negative number if the first position is before the second, a positive one if it is after it and 0 if
+ * both are equal.
+ */
+function comparePositions(lhs: { column: number, row: number }, rhs: { column: number, row: number }): number {
+    if (lhs.row != rhs.row) {
+        return lhs.row - rhs.row;
+    }
+    return lhs.column - rhs.column;
+}
+
 /**
  * Returns the parse tree which covers the given position or undefined if none could be found.
  */
@@ -1060,14 +3231,140 @@ function parseTreeFromPosition(root: ParseTree, column: number, row: number): Pa
         }
 
         if (context.children) {
+            // The position directly after a token also belongs to that token, unless the next token starts there
+            // (e.g. the mode name in `pushMode(X)`).
+            let previous: TerminalNode | undefined;
             for (let child of context.children) {
                 let result = parseTreeFromPosition(child, column, row);
                 if (result) {
+                    if (!previous && result instanceof TerminalNode) {
+                        let token = result.symbol;
+                        let tokenStop = token.charPositionInLine + (token.stopIndex - token.startIndex + 1);
+                        if (token.charPositionInLine < column && tokenStop == column) {
+                            previous = result;
+                            continue;
+                        }
+                    }
                     return result;
                 }
             }
+
+            if (previous) {
+                return previous;
+            }
         }
         return context;
 
     }
 }
+
+/**
+ * Splits the given element into the parts which matter for the cycle analysis.
+ */
+function elementParts(element: ElementContext): ElementParts {
+    let labeled = element.labeledElement();
+    let ebnf = element.ebnf();
+    let blockSuffix = ebnf ? ebnf.blockSuffix() : undefined;
+    let suffix = ebnf ? (blockSuffix ? blockSuffix.ebnfSuffix() : undefined) : element.ebnfSuffix();
+    let atom = labeled ? labeled.atom() : element.atom();
+
+    return {
+        optional: element.actionBlock() != undefined || (suffix != undefined && !suffix.PLUS()),
+        block: ebnf ? ebnf.block() : (labeled ? labeled.block() : undefined),
+        ruleref: atom ? atom.ruleref() : undefined
+    };
+}
+
+/**
+ * Determines if the given element can match empty input, given the rules which are known to do so.
+ */
+function elementIsNullable(element: ElementContext, nullable: Set<string>): boolean {
+    let parts = elementParts(element);
+    if (parts.optional) {
+        return true;
+    }
+    if (parts.block) {
+        return parts.block.altList().alternative().some(alternative => alternativeIsNullable(alternative, nullable));
+    }
+    return parts.ruleref != undefined && nullable.has(parts.ruleref.RULE_REF().text);
+}
+
+function alternativeIsNullable(alternative: AlternativeContext, nullable: Set<string>): boolean {
+    return alternative.element().every(element => elementIsNullable(element, nullable));
+}
+
+/**
+ * Determines if the given alternative can match any input at all, given the rules which are known to do so.
+ * References to unknown rules count as productive, as they are reported elsewhere.
+ */
+function alternativeIsProductive(alternative: AlternativeContext, rules: Map<string, ParserRuleDefinition>,
+    productive: Set<string>): boolean {
+    return alternative.element().every(element => {
+        let parts = elementParts(element);
+        if (parts.optional) {
+            return true;
+        }
+        if (parts.block) {
+            return parts.block.altList().alternative().some(entry => alternativeIsProductive(entry, rules, productive));
+        }
+        if (parts.ruleref) {
+            let name = parts.ruleref.RULE_REF().text;
+            return !rules.has(name) || productive.has(name);
+        }
+        return true;
+    });
+}
+
+/**
+ * Returns the rule references which can appear at the start of the given alternative, i.e. the first one and those
+ * which are only preceded by elements that can match empty input.
+ */
+function leftReferences(alternative: AlternativeContext, nullable: Set<string>): RulerefContext[] {
+    let result: RulerefContext[] = [];
+    for (let element of alternative.element()) {
+        let parts = elementParts(element);
+        if (parts.block) {
+            parts.block.altList().alternative().forEach(entry => result.push(...leftReferences(entry, nullable)));
+        } else if (parts.ruleref) {
+            result.push(parts.ruleref);
+        }
+
+        if (!elementIsNullable(element, nullable)) {
+            break;
+        }
+    }
+    return result;
+}
+
+/**
+ * Searches the shortest path in the given reference graph, which leads from the given rule back to it.
+ * Returns the references along that path or undefined if there's no such path.
+ */
+function findCycle(start: string, edges: Map<string, RulerefContext[]>): RulerefContext[] | undefined {
+    let reachedBy = new Map<string, [string, RulerefContext]>(); // Rule -> the rule and reference it was reached by.
+    let pending = [start];
+    while (pending.length > 0) {
+        let current = pending.shift()!;
+        for (let reference of edges.get(current) || []) {
+            let name = reference.RULE_REF().text;
+            if (reachedBy.has(name)) {
+                continue;
+            }
+
+            reachedBy.set(name, [current, reference]);
+            if (name == start) {
+                let result: RulerefContext[] = [];
+                let entry = reachedBy.get(start)!;
+                while (true) {
+                    result.unshift(entry[1]);
+                    if (entry[0] == start) {
+                        return result;
+                    }
+                    entry = reachedBy.get(entry[0])!;
+                }
+            }
+            pending.push(name);
+        }
+    }
+    return undefined;
+}
@@ -0,0 +1,9 @@
+grammar CycleBase;
+
+// Used by the rule cycle tests. Not valid on its own, since `start` is defined in the importing grammar.
+imported: other Y;
+other: start X | Z;
+
+X: 'x';
+Y: 'y';
+Z: 'z';
@@ -0,0 +1,12 @@
+parser grammar TParser3;
+
+options {
+	tokenVocab = TLexer3;
+}
+
+// The grammar source of the token vocabulary does not exist, only its compiled token file.
+
+start: assignment+ EOF;
+assignment: name = Identifier Equal value = expression Semicolon { print($name.text, $value.text); };
+expression: Number | Identifier;
+separator: '=' | ';' | '->';
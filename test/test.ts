@@ -13,7 +13,18 @@ import path = require("path");
 import util = require("util");
 
 import { expect, should, assert } from 'chai';
-import { AntlrLanguageSupport, SourceContext, SymbolKind, ATNGraphData, LexicalRange, GrapsDebugger } from "../index";
+import { PassThrough } from "stream";
+
+import * as lsp from "vscode-languageserver";
+
+import {
+    AntlrLanguageSupport, SourceContext, SymbolKind, ATNGraphData, LexicalRange, GrapsDebugger, GrapsLanguageServer,
+    DocumentHighlightKind, FoldingRangeKind, SemanticTokenType, SemanticTokenModifier, CodeLensActionKind,
+    SelectionRange, InlayHintKind, DiagnosticCode, DiagnosticType, lintRules
+} from "../index";
+import { GrapsCli } from "../src/GrapsCli";
+import { LexerAnalyzer, LexerConflictKind } from "../src/LexerAnalyzer";
+import { ANTLRv4Lexer } from "../parser/ANTLRv4Lexer";
 
 var backend: AntlrLanguageSupport;
 
@@ -86,7 +97,7 @@ describe('antlr4-graps:', function () {
 
         it('getDiagnostics', function () {
             let diagnostics = backend.getDiagnostics("test/t.g4");
-            expect(diagnostics.length, "Test 1").to.equal(2);
+            expect(diagnostics.length, "Test 1").to.equal(4);
 
             expect(diagnostics[0].message, "Test 2").to.equal("Unknown token reference \'ZZ\'");
             expect(diagnostics[0].range.start.column, "Test 3").to.equal(3);
@@ -99,6 +110,13 @@ describe('antlr4-graps:', function () {
             expect(diagnostics[1].range.start.row, "Test 9").to.equal(8);
             expect(diagnostics[1].range.end.column, "Test 10").to.equal(22);
             expect(diagnostics[1].range.end.row, "Test 11").to.equal(8);
+
+            expect(diagnostics[2].message, "Test 12").to.equal("Parser rule 'y' is never used");
+            expect(diagnostics[2].type, "Test 13").to.equal(DiagnosticType.Warning);
+            expect(diagnostics[3].message, "Test 14").to.equal("Token 'D' is not used by any parser rule");
+            expect(diagnostics[3].range, "Test 15").to.eql({
+                start: { column: 0, row: 5 }, end: { column: 1, row: 5 }
+            });
         });
 
         it('reparse', function () {
@@ -187,18 +205,30 @@ describe('antlr4-graps:', function () {
             backend.reparse("test/TParser.g4");
 
             let parserDiags = backend.getDiagnostics("test/TParser.g4"); // This also updates the symbol reference counts.
-            expect(parserDiags.length, "Test 1").to.be.equal(0);
+            expect(parserDiags.filter(entry => entry.type == DiagnosticType.Error).length, "Test 1").to.be.equal(0);
+            expect(parserDiags.map(entry => entry.message), "Test 2").to.include("Parser rule 'blah' is never used");
         });
 
         it('getDiagnostics', function () {
+            // Only warnings about tokens, which are not used in the (loaded) parser grammar or can never be matched,
+            // and infos about tokens with predicates, which overlap other tokens.
             let lexerDiags = backend.getDiagnostics("test/TLexer.g4");
-            expect(lexerDiags.length, "Test 1").to.be.equal(0);
+            expect(lexerDiags.every(entry => entry.type == DiagnosticType.Warning
+                || entry.code == DiagnosticCode.OverlappingTokens), "Test 1").to.be.true;
+            expect(lexerDiags.filter(entry => entry.code == DiagnosticCode.UnusedToken)
+                .map(entry => entry.message.split("'")[1]), "Test 2").to.eql(["Digit", "Minus", "Foo", "Bar", "Any",
+                    "Dot", "DotDot"]);
 
             let refCount = backend.countReferences("test/TParser.g4", "Semicolon");
-            expect(refCount, "Test 2").to.equal(4);
+            expect(refCount, "Test 3").to.equal(4);
 
             refCount = backend.countReferences("test/TLexer.g4", "Bar");
-            expect(refCount, "Test 3").to.equal(2);
+            expect(refCount, "Test 4").to.equal(2);
+
+            expect(lexerDiags.filter(entry => entry.code == DiagnosticCode.ShadowedToken)
+                .map(entry => entry.message.split("'")[1]), "Test 5").to.eql(["Digit", "And"]);
+            expect(lexerDiags.filter(entry => entry.code == DiagnosticCode.OverlappingTokens)
+                .map(entry => entry.message.split("'")[3]), "Test 6").to.eql(["Foo", "Bar"]);
             backend.releaseGrammar("test/TParser.g4");
         });
 
@@ -238,6 +268,1181 @@ describe('antlr4-graps:', function () {
             expect(symbol!.definition!.range.end.row, "Test 34").to.equal(90);
             expect(symbol!.definition!.range.end.column, "Test 35").to.equal(0);
         });
+
+        it("References", function () {
+            let references = backend.getReferences("test/TParser.g4", 24, 96); // Semicolon in rule stat.
+            expect(references.length, "Test 1").to.equal(4);
+            expect(references[0].source, "Test 2").to.equal("test/TParser.g4");
+            expect(references[0].range.start.row, "Test 3").to.equal(93);
+            expect(references[0].range.start.column, "Test 4").to.equal(25);
+            expect(references[0].range.end.row, "Test 5").to.equal(93);
+            expect(references[0].range.end.column, "Test 6").to.equal(34);
+            expect(references[3].range.start.row, "Test 7").to.equal(97);
+            expect(references[3].range.start.column, "Test 8").to.equal(11);
+
+            // Lookup from the definition and by name. Includes references from both lexer and parser grammar.
+            references = backend.getReferences("test/TLexer.g4", 2, 65); // OpenCurly
+            expect(references.length, "Test 9").to.equal(2);
+            expect(references[0].source, "Test 10").to.equal("test/TParser.g4");
+            expect(references[0].range.start.row, "Test 11").to.equal(117);
+
+            references = backend.getReferencesForSymbol("test/TLexer.g4", "Mode1");
+            expect(references.length, "Test 12").to.equal(2);
+            expect(references[0].source, "Test 13").to.equal("test/TLexer.g4");
+            expect(references[0].range.start.row, "Test 14").to.equal(65);
+            expect(references[0].range.start.column, "Test 15").to.equal(27);
+            expect(references[1].range.start.row, "Test 16").to.equal(69);
+
+            expect(backend.getReferences("test/TParser.g4", 0, 1).length, "Test 17").to.equal(0);
+        });
+
+        it("Document symbols", function () {
+            let symbols = backend.getDocumentSymbols("test/TParser.g4");
+            expect(symbols.length, "Test 1").to.equal(1);
+            let grammar = symbols[0];
+            expect(grammar.name, "Test 2").to.equal("TParser");
+            expect(grammar.kind, "Test 3").to.equal(SymbolKind.Grammar);
+            expect(grammar.nameRange, "Test 4").to.eql({ start: { column: 15, row: 1 }, end: { column: 22, row: 1 } });
+            expect(grammar.children.length, "Test 5").to.equal(41);
+
+            let options = grammar.children[0];
+            expect(options.kind, "Test 6").to.equal(SymbolKind.OptionsBlock);
+            expect(options.children.length, "Test 7").to.equal(1);
+            expect(options.children[0].kind, "Test 8").to.equal(SymbolKind.TokenVocab);
+            expect(options.children[0].name, "Test 9").to.equal("TLexer");
+
+            expect(grammar.children[1].kind, "Test 10").to.equal(SymbolKind.Action);
+            expect(grammar.children[1].name, "Test 11").to.equal("@parser::header");
+
+            let flowControl = grammar.children[36];
+            expect(flowControl.name, "Test 12").to.equal("flowControl");
+            expect(flowControl.kind, "Test 13").to.equal(SymbolKind.ParserRule);
+            expect(flowControl.range, "Test 14").to.eql({ start: { column: 0, row: 111 }, end: { column: 1, row: 114 } });
+            expect(flowControl.nameRange, "Test 15").to.eql({ start: { column: 0, row: 111 }, end: { column: 11, row: 111 } });
+            expect(flowControl.children.length, "Test 16").to.equal(2);
+            expect(flowControl.children[0].kind, "Test 17").to.equal(SymbolKind.AlternativeLabel);
+            expect(flowControl.children[0].name, "Test 18").to.equal("Return");
+            expect(flowControl.children[1].name, "Test 19").to.equal("Continue");
+
+            // Blocks and modes in the lexer.
+            grammar = backend.getDocumentSymbols("test/TLexer.g4")[0];
+            let channels = grammar.children.find(entry => entry.kind == SymbolKind.ChannelsBlock)!;
+            expect(channels.children.map(entry => entry.name), "Test 20").to.eql(["CommentsChannel", "DirectiveChannel"]);
+            let tokens = grammar.children.find(entry => entry.kind == SymbolKind.TokensBlock)!;
+            expect(tokens.children.map(entry => entry.name), "Test 21").to.eql(["DUMMY"]);
+
+            let modes = grammar.children.filter(entry => entry.kind == SymbolKind.LexerMode);
+            expect(modes.length, "Test 22").to.equal(2);
+            expect(modes[0].name, "Test 23").to.equal("Mode1");
+            expect(modes[0].range, "Test 24").to.eql({ start: { column: 0, row: 83 }, end: { column: 9, row: 84 } });
+            expect(modes[0].children.length, "Test 25").to.equal(1);
+            expect(modes[0].children[0].name, "Test 26").to.equal("Dot");
+            expect(modes[1].children[0].name, "Test 27").to.equal("DotDot");
+        });
+
+        it("Definitions", function () {
+            let definition = backend.getDefinition("test/TParser.g4", 24, 96); // Semicolon in rule stat.
+            expect(definition, "Test 1").not.to.be.undefined;
+            expect(definition!.source, "Test 2").to.equal("test/TLexer.g4");
+            expect(definition!.range.start.row, "Test 3").to.equal(59);
+            expect(definition!.range.start.column, "Test 4").to.equal(0);
+
+            definition = backend.getDefinition("test/TParser.g4", 30, 78); // $ID in an action.
+            expect(definition!.source, "Test 5").to.equal("test/TLexer.g4");
+            expect(definition!.range.start.row, "Test 6").to.equal(50);
+
+            definition = backend.getDefinition("test/TLexer.g4", 50, 77); // channel(CommentsChannel)
+            expect(definition!.source, "Test 7").to.equal("test/TLexer.g4");
+            expect(definition!.range.start.row, "Test 8").to.equal(38);
+            expect(definition!.range.start.column, "Test 9").to.equal(11);
+
+            definition = backend.getDefinition("test/TLexer.g4", 30, 65); // pushMode(Mode1)
+            expect(definition!.range.start.row, "Test 10").to.equal(83);
+
+            expect(backend.getDefinition("test/TParser.g4", 0, 1), "Test 11").to.be.undefined;
+
+            // A parser grammar whose token vocabulary exists only as .tokens file.
+            backend.loadGrammar("test/TParser3.g4");
+            try {
+                definition = backend.getDefinition("test/TParser3.g4", 88, 10); // $value in an action.
+                expect(definition!.source, "Test 12").to.equal("test/TParser3.g4");
+                expect(definition!.range.start.row, "Test 13").to.equal(10);
+                expect(definition!.range.start.column, "Test 14").to.equal(36);
+
+                definition = backend.getDefinition("test/TParser3.g4", 60, 10); // Semicolon
+                expect(definition!.source, "Test 15").to.equal(path.join("test", "TLexer3.tokens"));
+                expect(definition!.range.start.row, "Test 16").to.equal(4);
+                expect(definition!.range.end.column, "Test 17").to.equal(9);
+
+                definition = backend.getDefinition("test/TParser3.g4", 14, 11); // Number
+                expect(definition!.range.start.row, "Test 18").to.equal(2);
+            } finally {
+                backend.releaseGrammar("test/TParser3.g4");
+            }
+        });
+
+        it("Rename", function () {
+            let result = backend.renameSymbol("test/TLexer.g4", 30, 65, "Mode3"); // pushMode(Mode1)
+            expect(result.errors.length, "Test 1").to.equal(0);
+            expect(result.changes.size, "Test 2").to.equal(1);
+            let edits = result.changes.get("test/TLexer.g4")!;
+            expect(edits.length, "Test 3").to.equal(3);
+            expect(edits[0].newText, "Test 4").to.equal("Mode3");
+            expect(edits[0].range.start.row, "Test 5").to.equal(65);
+            expect(edits[0].range.start.column, "Test 6").to.equal(27);
+            expect(edits[0].range.end.column, "Test 7").to.equal(32);
+            expect(edits[2].range.start.row, "Test 8").to.equal(83);
+            expect(edits[2].range.start.column, "Test 9").to.equal(5);
+
+            // Token defined in the lexer grammar and used in the parser grammar, also in an action ($ID.text).
+            result = backend.renameSymbol("test/TParser.g4", 3, 78, "Identifier");
+            expect(result.errors.length, "Test 10").to.equal(0);
+            expect(result.changes.get("test/TLexer.g4")!.length, "Test 11").to.equal(1);
+            edits = result.changes.get("test/TParser.g4")!;
+            expect(edits.length, "Test 12").to.equal(4);
+            expect(edits[2].range.start.row, "Test 13").to.equal(78);
+            expect(edits[2].range.start.column, "Test 14").to.equal(30);
+
+            // Labels and alternative labels.
+            result = backend.renameSymbol("test/TParser.g4", 18, 117, "elements");
+            edits = result.changes.get("test/TParser.g4")!;
+            expect(edits.length, "Test 15").to.equal(2);
+            expect(edits[1].range.start.column, "Test 16").to.equal(35);
+            result = backend.renameSymbol("test/TParser.g4", 30, 112, "ReturnStatement");
+            expect(result.changes.get("test/TParser.g4")!.length, "Test 17").to.equal(1);
+
+            // Invalid names and conflicts.
+            result = backend.renameSymbol("test/TParser.g4", 24, 96, "semi");
+            expect(result.errors, "Test 18").to.eql(["Token names must start with an uppercase letter"]);
+            expect(result.changes.size, "Test 19").to.equal(0);
+            result = backend.renameSymbol("test/TParser.g4", 0, 96, "Statement");
+            expect(result.errors, "Test 20").to.eql(["Parser rule names must start with a lowercase letter"]);
+            result = backend.renameSymbol("test/TParser.g4", 24, 96, "Comma");
+            expect(result.errors.length, "Test 21").to.equal(2);
+            expect(result.changes.size, "Test 22").to.equal(0);
+            result = backend.renameSymbol("test/TParser.g4", 30, 112, "expr");
+            expect(result.errors, "Test 23").to.eql(["The alternative label 'expr' conflicts with a parser rule"]);
+            result = backend.renameSymbol("test/TParser.g4", 18, 117, "mode");
+            expect(result.errors, "Test 24").to.eql(["'mode' is not a valid identifier"]);
+            result = backend.renameSymbol("test/TLexer.g4", 0, 1, "X");
+            expect(result.errors, "Test 25").to.eql(["There is no symbol at the given position"]);
+
+            // The first character of the mode name directly follows the opening parenthesis.
+            result = backend.renameSymbol("test/TLexer.g4", 27, 65, "Mode3");
+            expect(result.errors, "Test 26").to.eql([]);
+            expect(result.changes.get("test/TLexer.g4")!.map(edit => edit.range.start.row), "Test 27")
+                .to.eql([65, 69, 83]);
+            expect(backend.getDefinition("test/TLexer.g4", 27, 65)!.range.start, "Test 28").to.eql({
+                column: 0, row: 83
+            });
+        });
+
+        it("Documentation", function () {
+            let source = [
+                "grammar Doc;",
+                "",
+                "/**",
+                " * The entry rule.",
+                " *   Second line.",
+                " */",
+                "start[int a, String b]",
+                "    returns [int c] locals [int d]",
+                "    @init {}",
+                "    : ID+;",
+                "/** An identifier. */",
+                "ID: [a-z]+;",
+                "Number: [0-9]+; // Trailing comment.",
+                "",
+                "// The first mode.",
+                "/* Continued here. */",
+                "mode First;",
+                "X: 'x'; // Not for the mode.",
+                "mode Second;",
+            ].join("\n");
+
+            backend.loadGrammar("test/Doc.g4", source);
+            try {
+                let info = backend.infoForSymbol("test/Doc.g4", 0, 7, false);
+                expect(info!.description, "Test 1").to.equal("The entry rule.\nSecond line.");
+                expect(info!.signature, "Test 2").to.equal("start[int a, String b] returns [int c] locals [int d]");
+
+                info = backend.infoForSymbol("test/Doc.g4", 6, 10, true); // Reference to ID.
+                expect(info!.description, "Test 3").to.equal("An identifier.");
+                expect(info!.signature, "Test 4").to.be.undefined;
+                expect(backend.infoForSymbol("test/Doc.g4", 0, 13, false)!.description, "Test 5").to.be.undefined;
+
+                expect(backend.infoForSymbol("test/Doc.g4", 5, 17, false)!.description, "Test 6")
+                    .to.equal("The first mode.\nContinued here.");
+                expect(backend.infoForSymbol("test/Doc.g4", 5, 19, false)!.description, "Test 7").to.be.undefined;
+
+                let symbols = backend.listSymbols("test/Doc.g4", true);
+                let start = symbols.find(symbol => symbol.name == "start");
+                expect(start!.description, "Test 8").to.equal("The entry rule.\nSecond line.");
+            } finally {
+                backend.releaseGrammar("test/Doc.g4");
+            }
+        });
+
+        it("Document highlights", function () {
+            let highlights = backend.getDocumentHighlights("test/TParser.g4", 0, 116); // Rule id.
+            expect(highlights.length, "Test 1").to.equal(4);
+            expect(highlights[0].range.start.row, "Test 2").to.equal(105);
+            expect(highlights[0].kind, "Test 3").to.equal(DocumentHighlightKind.Reference);
+            expect(highlights[1].range.start.row, "Test 4").to.equal(116);
+            expect(highlights[1].kind, "Test 5").to.equal(DocumentHighlightKind.Definition);
+            expect(highlights[3].range.start.column, "Test 6").to.equal(52);
+
+            // Token defined in the lexer grammar: only references here.
+            highlights = backend.getDocumentHighlights("test/TParser.g4", 24, 96);
+            expect(highlights.length, "Test 7").to.equal(4);
+            expect(highlights.every(entry => entry.kind == DocumentHighlightKind.Reference), "Test 8").to.be.true;
+
+            // Labels: every assignment is a definition.
+            highlights = backend.getDocumentHighlights("test/TParser.g4", 18, 117);
+            expect(highlights.length, "Test 9").to.equal(2);
+            expect(highlights[1].range.start.column, "Test 10").to.equal(35);
+            expect(highlights[1].kind, "Test 11").to.equal(DocumentHighlightKind.Definition);
+
+            backend.loadGrammar("test/TParser3.g4");
+            try {
+                highlights = backend.getDocumentHighlights("test/TParser3.g4", 12, 10); // Label name.
+                expect(highlights.length, "Test 12").to.equal(2);
+                expect(highlights[0].kind, "Test 13").to.equal(DocumentHighlightKind.Definition);
+                expect(highlights[1].kind, "Test 14").to.equal(DocumentHighlightKind.Reference);
+                let references = backend.getReferences("test/TParser3.g4", 12, 10);
+                expect(references.length, "Test 14a").to.equal(1);
+                expect(references[0].range, "Test 14b").to.eql(highlights[1].range);
+            } finally {
+                backend.releaseGrammar("test/TParser3.g4");
+            }
+
+            expect(backend.getDocumentHighlights("test/TParser.g4", 0, 1), "Test 15").to.eql([]);
+        });
+
+        it("Folding ranges", function () {
+            let ranges = backend.getFoldingRanges("test/TParser.g4");
+            expect(ranges.length, "Test 1").to.equal(12);
+            expect(ranges[0].kind, "Test 2").to.equal(FoldingRangeKind.Block); // Options with leading whitespace.
+            expect(ranges[0].range.start.column, "Test 3").to.equal(5);
+            expect(ranges[0].range.end.row, "Test 4").to.equal(5);
+
+            // Group of line comments, followed by a named action.
+            expect(ranges[2].kind, "Test 5").to.equal(FoldingRangeKind.Comment);
+            expect(ranges[2].range.start.row, "Test 6").to.equal(26);
+            expect(ranges[2].range.end.row, "Test 7").to.equal(29);
+            expect(ranges[3].kind, "Test 8").to.equal(FoldingRangeKind.Action);
+            expect(ranges[3].range.end.row, "Test 9").to.equal(37);
+
+            // A rule with exception handlers, which contain action blocks.
+            expect(ranges[5].kind, "Test 10").to.equal(FoldingRangeKind.Rule);
+            expect(ranges[5].range.start.row, "Test 11").to.equal(82);
+            expect(ranges[5].range.end.row, "Test 12").to.equal(90);
+            expect(ranges[6].kind, "Test 13").to.equal(FoldingRangeKind.Action);
+            expect(ranges[6].range.start.row, "Test 14").to.equal(85);
+
+            ranges = backend.getFoldingRanges("test/TLexer.g4");
+            expect(ranges.length, "Test 15").to.equal(5);
+            expect(ranges[3].kind, "Test 16").to.equal(FoldingRangeKind.Mode);
+            expect(ranges[3].range.start.row, "Test 17").to.equal(83);
+            expect(ranges[3].range.end.row, "Test 18").to.equal(84);
+        });
+
+        it("Semantic tokens", function () {
+            let data = backend.getSemanticTokens("test/TParser.g4");
+            expect(data.length % 5, "Test 1").to.equal(0);
+            expect(data.slice(0, 5), "Test 2").to.eql([3, 1, 10, SemanticTokenType.Option, 0]); // tokenVocab
+            expect(data.slice(5, 10), "Test 3").to.eql([67, 0, 4, SemanticTokenType.ParserRule,
+                SemanticTokenModifier.Definition | SemanticTokenModifier.Unused]); // main
+            expect(data.slice(10, 15), "Test 4").to.eql([0, 6, 4, SemanticTokenType.ParserRule, 0]); // stat
+            expect(data.slice(15, 20), "Test 5").to.eql([0, 6, 3, SemanticTokenType.BuiltIn, 0]); // EOF
+
+            // Row 78: ID (LessThan* divide)?? { $ID.text; }
+            data = backend.getSemanticTokens("test/TParser.g4", { start: { column: 0, row: 78 }, end: { column: 0, row: 79 } });
+            expect(data, "Test 6").to.eql([
+                77, 3, 2, SemanticTokenType.LexerToken, SemanticTokenModifier.Imported,
+                0, 4, 8, SemanticTokenType.LexerToken, SemanticTokenModifier.Imported,
+                0, 10, 6, SemanticTokenType.ParserRule, 0,
+                0, 13, 2, SemanticTokenType.LexerToken, SemanticTokenModifier.Imported,
+            ]);
+
+            // Labels and alternative labels.
+            data = backend.getSemanticTokens("test/TParser.g4", { start: { column: 0, row: 112 }, end: { column: 0, row: 113 } });
+            expect(data.slice(data.length - 5), "Test 7").to.eql([0, 19, 6, SemanticTokenType.Label,
+                SemanticTokenModifier.Definition]);
+
+            // Lexer: channels, modes, fragments and built-ins. Tokens used in the parser grammar are not unused.
+            data = backend.getSemanticTokens("test/TLexer.g4", { start: { column: 0, row: 79 }, end: { column: 0, row: 84 } });
+            expect(data, "Test 8").to.eql([
+                78, 0, 3, SemanticTokenType.LexerToken, SemanticTokenModifier.Definition | SemanticTokenModifier.Unused,
+                0, 23, 6, SemanticTokenType.BuiltIn, 0,
+                2, 9, 3, SemanticTokenType.FragmentToken, SemanticTokenModifier.Definition,
+                2, 5, 5, SemanticTokenType.Mode, SemanticTokenModifier.Definition,
+            ]);
+            data = backend.getSemanticTokens("test/TLexer.g4", { start: { column: 0, row: 44 }, end: { column: 0, row: 45 } });
+            expect(data, "Test 9").to.eql([43, 0, 6, SemanticTokenType.LexerToken, SemanticTokenModifier.Definition]);
+        });
+
+        it("Call hierarchy", function () {
+            let calls = backend.getOutgoingCalls("test/TParser.g4", "expr");
+            expect(calls.length, "Test 1").to.equal(12);
+            expect(calls[0].rule.name, "Test 2").to.equal("expr"); // Recursive calls.
+            expect(calls[0].callRanges.length, "Test 3").to.equal(10);
+            expect(calls[1].rule.name, "Test 4").to.equal("Star");
+            expect(calls[1].rule.kind, "Test 5").to.equal(SymbolKind.LexerToken);
+            expect(calls[1].rule.source, "Test 6").to.equal("test/TLexer.g4");
+            expect(calls[1].rule.nameRange.start.row, "Test 7").to.equal(62);
+            expect(calls[1].callRanges, "Test 8").to.eql([{
+                start: { column: 11, row: 100 }, end: { column: 15, row: 100 }
+            }]);
+            expect(calls[9].rule.name, "Test 9").to.equal("flowControl");
+            expect(calls[9].rule.range.end.row, "Test 10").to.equal(114);
+
+            // EOF has no definition.
+            calls = backend.getOutgoingCalls("test/TParser.g4", "main");
+            expect(calls.length, "Test 11").to.equal(1);
+            expect(calls[0].rule.name, "Test 12").to.equal("stat");
+            expect(backend.getOutgoingCalls("test/TParser.g4", "unknown"), "Test 13").to.eql([]);
+
+            calls = backend.getIncomingCalls("test/TParser.g4", "expr");
+            expect(calls.map(call => call.rule.name), "Test 14").to.eql(["stat", "expr", "flowControl"]);
+            expect(calls[0].callRanges.length, "Test 15").to.equal(3);
+            expect(calls[2].callRanges[0].start, "Test 16").to.eql({ column: 9, row: 112 });
+
+            // Calls from another grammar.
+            calls = backend.getIncomingCalls("test/TLexer.g4", "ID");
+            expect(calls.map(call => call.rule.name), "Test 17").to.eql(["divide", "conquer", "id"]);
+            expect(calls[0].rule.source, "Test 18").to.equal("test/TParser.g4");
+            calls = backend.getIncomingCalls("test/TLexer.g4", "LETTER");
+            expect(calls.length, "Test 19").to.equal(1);
+            expect(calls[0].callRanges.length, "Test 20").to.equal(2);
+        });
+
+        it("Rule variables", function () {
+            let source = [
+                "grammar Vars;",
+                "start[int count, String name = \"x, y\"] returns [List<Map<String, Integer>> result] locals [double total]",
+                "    @init { $total = $count; }",
+                "    : v = ID { $result = $name + $v.text + $ID.text + $text; } sub[$count] { $unknown = 1; };",
+                "sub[value: number]: ID { $value; };",
+                "ID: [a-z]+;",
+            ].join("\n");
+
+            backend.loadGrammar("test/Vars.g4", source);
+            try {
+                let info = backend.infoForSymbol("test/Vars.g4", 10, 2, false);
+                expect(info!.name, "Test 1").to.equal("count");
+                expect(info!.kind, "Test 2").to.equal(SymbolKind.RuleParameter);
+                expect(info!.definition!.text, "Test 3").to.equal("int count");
+
+                info = backend.infoForSymbol("test/Vars.g4", 28, 2, false);
+                expect(info!.definition!.text, "Test 4").to.equal("String name = \"x, y\"");
+                info = backend.infoForSymbol("test/Vars.g4", 76, 2, false);
+                expect(info!.name, "Test 5").to.equal("result");
+                expect(info!.kind, "Test 6").to.equal(SymbolKind.RuleReturnValue);
+                expect(info!.definition!.text, "Test 7").to.equal("List<Map<String, Integer>> result");
+
+                info = backend.infoForSymbol("test/Vars.g4", 14, 3, true); // $total in the init action.
+                expect(info!.kind, "Test 8").to.equal(SymbolKind.RuleLocalVariable);
+                expect(info!.definition!.range.start, "Test 9").to.eql({ column: 91, row: 2 });
+
+                info = backend.infoForSymbol("test/Vars.g4", 26, 5, true); // Type after name.
+                expect(info!.name, "Test 10").to.equal("value");
+                expect(info!.definition!.text, "Test 11").to.equal("value: number");
+
+                let diagnostics = backend.getDiagnostics("test/Vars.g4");
+                expect(diagnostics.length, "Test 12").to.equal(1);
+                expect(diagnostics[0].message, "Test 13").to.equal("Unknown attribute reference '$unknown'");
+                expect(diagnostics[0].range.start, "Test 14").to.eql({ column: 78, row: 4 });
+
+                let definition = backend.getDefinition("test/Vars.g4", 23, 3); // $count
+                expect(definition!.range.start, "Test 15").to.eql({ column: 6, row: 2 });
+
+                let highlights = backend.getDocumentHighlights("test/Vars.g4", 10, 2);
+                expect(highlights.length, "Test 16").to.equal(3);
+                expect(highlights[0].kind, "Test 17").to.equal(DocumentHighlightKind.Definition);
+                expect(highlights[2].range.start, "Test 18").to.eql({ column: 68, row: 4 });
+
+                let references = backend.getReferences("test/Vars.g4", 10, 2);
+                expect(references.length, "Test 18a").to.equal(2);
+                expect(references[1], "Test 18b").to.eql({ source: "test/Vars.g4", range: highlights[2].range });
+
+                let candidates = backend.getCodeCompletionCandidates("test/Vars.g4", 14, 3);
+                expect(candidates.map(candidate => candidate.name), "Test 19")
+                    .to.eql(["count", "name", "result", "total", "v", "text", "start", "stop", "ctx", "parser"]);
+                candidates = backend.getCodeCompletionCandidates("test/Vars.g4", 28, 5);
+                expect(candidates.map(candidate => candidate.name).slice(0, 2), "Test 20").to.eql(["value", "text"]);
+
+                let result = backend.renameSymbol("test/Vars.g4", 10, 2, "amount");
+                expect(result.errors, "Test 21").to.eql([]);
+                expect(result.changes.get("test/Vars.g4")!.length, "Test 22").to.equal(3);
+                result = backend.renameSymbol("test/Vars.g4", 10, 2, "total");
+                expect(result.errors, "Test 23").to.eql(["The variable 'total' conflicts with an existing symbol"]);
+            } finally {
+                backend.releaseGrammar("test/Vars.g4");
+            }
+        });
+
+        it("Code lenses", function () {
+            let lenses = backend.getCodeLenses("test/TParser.g4");
+            expect(lenses.length, "Test 1").to.equal(13);
+            expect(lenses[0].rule, "Test 2").to.equal("main");
+            expect(lenses[0].kind, "Test 3").to.equal(SymbolKind.ParserRule);
+            expect(lenses[0].range, "Test 4").to.eql({ start: { column: 0, row: 71 }, end: { column: 16, row: 71 } });
+            expect(lenses[0].referenceCount, "Test 5").to.equal(0);
+            expect(lenses[0].actions.map(action => action.kind), "Test 6").to.eql([CodeLensActionKind.RailroadDiagram,
+                CodeLensActionKind.ATNGraph, CodeLensActionKind.SentenceGeneration, CodeLensActionKind.Debug]);
+            expect(lenses[0].actions[3].title, "Test 7").to.equal("Debug from here");
+            let expr = lenses.find(lens => lens.rule == "expr");
+            expect(expr!.referenceCount, "Test 8").to.equal(14);
+
+            // References to tokens are counted in dependent grammars too. No debugging for lexer rules.
+            lenses = backend.getCodeLenses("test/TLexer.g4");
+            expect(lenses.length, "Test 9").to.equal(33);
+            let id = lenses.find(lens => lens.rule == "ID");
+            expect(id!.referenceCount, "Test 10").to.equal(3);
+            expect(id!.actions.length, "Test 11").to.equal(3);
+            let letter = lenses.find(lens => lens.rule == "LETTER");
+            expect(letter!.kind, "Test 12").to.equal(SymbolKind.FragmentLexerToken);
+            expect(letter!.referenceCount, "Test 13").to.equal(2);
+        });
+
+        it("Workspace symbols", function () {
+            this.timeout(20000);
+
+            let symbols = backend.findWorkspaceSymbols("expr");
+            expect(symbols.length, "Test 1").to.equal(1);
+            expect(symbols[0], "Test 2").to.eql({
+                name: "expr", kind: SymbolKind.ParserRule, source: "test/TParser.g4",
+                range: { start: { column: 0, row: 100 }, end: { column: 0, row: 109 } }
+            });
+
+            // Exact matches (case insensitive) first, then prefixes, substrings and fuzzy matches.
+            symbols = backend.findWorkspaceSymbols("ID");
+            expect(symbols.slice(0, 3).map(symbol => symbol.name), "Test 3").to.eql(["ID", "id", "idarray"]);
+            expect(symbols[0].source, "Test 4").to.equal("test/TLexer.g4");
+            expect(symbols.map(symbol => symbol.name), "Test 5").to.include("divide");
+            expect(backend.findWorkspaceSymbols("flwctl").map(symbol => symbol.name), "Test 6").to.eql(["flowControl"]);
+            expect(backend.findWorkspaceSymbols("xyz"), "Test 7").to.eql([]);
+            expect(backend.findWorkspaceSymbols("translationunit"), "Test 8").to.eql([]);
+
+            // Including grammars which are not loaded.
+            symbols = backend.findWorkspaceSymbols("translationunit", true);
+            expect(symbols.length, "Test 9").to.equal(1);
+            expect(symbols[0].source, "Test 10").to.equal(path.resolve("test/CPP14.g4"));
+            expect(symbols[0].range.start.row, "Test 11").to.equal(54);
+            expect(backend.getContext("test/TParser.g4"), "Test 12").to.exist;
+
+            symbols = backend.findWorkspaceSymbols("expr", true);
+            expect(symbols.filter(symbol => symbol.name == "expr").map(symbol => symbol.source), "Test 13")
+                .to.eql([path.resolve("test/Expr.g4"), path.resolve("test/TParser2.g4"), "test/TParser.g4"]);
+
+            // A relative import dir does not depend on the current working directory.
+            let other = new AntlrLanguageSupport(".");
+            let cwd = process.cwd();
+            other.loadGrammar(path.resolve("test/t.g4"));
+            try {
+                process.chdir(path.resolve("src"));
+                symbols = other.findWorkspaceSymbols("translationunit", true);
+                expect(symbols.map(symbol => symbol.source), "Test 14").to.eql([path.join(cwd, "test/CPP14.g4")]);
+            } finally {
+                process.chdir(cwd);
+                other.releaseGrammar(path.resolve("test/t.g4"));
+            }
+        });
+
+        it("Selection ranges", function () {
+            let chain = (selectionRange: SelectionRange | undefined): string[] => {
+                let result: string[] = [];
+                while (selectionRange) {
+                    let range = selectionRange.range;
+                    result.push(range.start.row + ":" + range.start.column + "-" + range.end.row + ":"
+                        + range.end.column);
+                    selectionRange = selectionRange.parent;
+                }
+                return result;
+            };
+
+            let ranges = backend.getSelectionRanges("test/TParser.g4", [
+                { column: 3, row: 112 }, { column: 20, row: 102 }, { column: 0, row: 1 }, { column: 0, row: 500 }
+            ]);
+            expect(ranges.length, "Test 1").to.equal(4);
+
+            // Token, alternative, alternative list, block, labeled alternative, rule alternatives, rule,
+            // rule list, grammar.
+            expect(chain(ranges[0]), "Test 2").to.eql(["112:2-112:8", "112:2-112:13", "112:2-112:24", "112:1-112:25",
+                "112:1-112:34", "112:1-113:22", "111:0-114:1", "71:0-119:11", "1:0-120:0"]);
+            expect(chain(ranges[1]), "Test 3").to.eql(["102:19-102:27", "102:6-102:27", "100:6-108:12", "100:0-109:1",
+                "71:0-119:11", "1:0-120:0"]);
+            expect(chain(ranges[2]), "Test 4").to.eql(["1:0-1:6", "1:0-1:14", "1:0-120:0"]);
+
+            // Positions outside of the grammar get an empty range.
+            expect(chain(ranges[3]), "Test 5").to.eql(["500:0-500:0"]);
+        });
+
+        it("Inlay hints", function () {
+            // Parser grammar with token vocabulary.
+            let hints = backend.getInlayHints("test/TParser.g4");
+            expect(hints, "Test 1").to.eql([
+                { position: { column: 24, row: 112 }, label: "Return", kind: InlayHintKind.TokenName }
+            ]);
+
+            hints = backend.getInlayHints("test/TLexer.g4");
+            expect(hints.map(hint => hint.label), "Test 2").to.eql(["type OpenCurly, pushMode Mode1",
+                "type CloseCurly, popMode", "skip", "more, mode Mode1", "type DUMMY",
+                "type Comment, channel CommentsChannel", "type WS, channel 99", "type WS2, channel HIDDEN"]);
+            expect(hints[0].position, "Test 3").to.eql({ column: 9, row: 65 });
+            expect(hints.every(hint => hint.kind == InlayHintKind.TokenType), "Test 4").to.be.true;
+
+            hints = backend.getInlayHints("test/TLexer.g4", {
+                start: { column: 0, row: 68 }, end: { column: 100, row: 69 }
+            });
+            expect(hints.map(hint => hint.label), "Test 5").to.eql(["skip", "more, mode Mode1"]);
+
+            // Combined grammar with implicit tokens.
+            let source = [
+                "grammar Hints;",
+                "start: 'a' Plus '+' ('b' | ~'-')* PLUS;",
+                "Plus: '+';",
+                "PLUS: '+' -> type(Plus);",
+                "fragment MINUS: '-';",
+                "B: 'b'+;",
+            ].join("\n");
+
+            backend.loadGrammar("test/Hints.g4", source);
+            try {
+                hints = backend.getInlayHints("test/Hints.g4");
+                expect(hints.map(hint => hint.label), "Test 6")
+                    .to.eql(["implicit", "Plus", "implicit", "implicit", "type Plus"]);
+                expect(hints.map(hint => hint.position.column), "Test 7").to.eql([10, 19, 24, 31, 4]);
+                expect(hints[0].kind, "Test 8").to.equal(InlayHintKind.ImplicitToken);
+                expect(hints[0].tooltip, "Test 9").to.contain("implicit token");
+                expect(hints[1].kind, "Test 10").to.equal(InlayHintKind.TokenName);
+            } finally {
+                backend.releaseGrammar("test/Hints.g4");
+            }
+
+            // Parser grammar whose token vocabulary exists only as .tokens file.
+            backend.loadGrammar("test/TParser3.g4");
+            try {
+                hints = backend.getInlayHints("test/TParser3.g4");
+                expect(hints.map(hint => hint.label), "Test 11").to.eql(["Equal", "Semicolon", "undefined"]);
+                expect(hints[2].kind, "Test 12").to.equal(InlayHintKind.ImplicitToken);
+            } finally {
+                backend.releaseGrammar("test/TParser3.g4");
+            }
+        });
+
+        it("Code actions", function () {
+            let all = { start: { column: 0, row: 1 }, end: { column: 0, row: 100 } };
+            let source = [
+                "grammar Fix;",
+                "start: missing Token;",
+                "",
+                "// Comment.",
+                "start: ID;",
+                "ID: [a-z]+ -> channel(X);",
+            ].join("\n");
+
+            backend.loadGrammar("test/Fix.g4", source);
+            try {
+                let diagnostics = backend.getDiagnostics("test/Fix.g4");
+                expect(diagnostics.map(entry => entry.code), "Test 1").to.eql([DiagnosticCode.UnknownParserRule,
+                    DiagnosticCode.UnknownToken, DiagnosticCode.DuplicateSymbol, DiagnosticCode.UnknownChannel]);
+
+                // No channels in combined grammars, hence no fix for the unknown channel.
+                let actions = backend.getCodeActions("test/Fix.g4", all, diagnostics);
+                expect(actions.map(action => action.title), "Test 2").to.eql(["Create parser rule 'missing'",
+                    "Create lexer token 'Token'", "Remove duplicate rule 'start'"]);
+                expect(actions[0].diagnostic, "Test 3").to.equal(diagnostics[0]);
+                expect(actions[0].changes.get("test/Fix.g4"), "Test 4").to.eql([{
+                    range: { start: { column: 21, row: 2 }, end: { column: 21, row: 2 } }, newText: "\n\nmissing: ;"
+                }]);
+                expect(actions[1].changes.get("test/Fix.g4"), "Test 5").to.eql([{
+                    range: { start: { column: 25, row: 6 }, end: { column: 25, row: 6 } }, newText: "\n\nToken: ;"
+                }]);
+
+                // Removing a rule keeps comments before it.
+                expect(actions[2].changes.get("test/Fix.g4"), "Test 6").to.eql([{
+                    range: { start: { column: 11, row: 4 }, end: { column: 10, row: 5 } }, newText: ""
+                }]);
+
+                // Only diagnostics in the given range are considered.
+                actions = backend.getCodeActions("test/Fix.g4",
+                    { start: { column: 0, row: 5 }, end: { column: 3, row: 5 } }, diagnostics);
+                expect(actions.map(action => action.title), "Test 7").to.eql(["Remove duplicate rule 'start'"]);
+            } finally {
+                backend.releaseGrammar("test/Fix.g4");
+            }
+
+            source = [
+                "lexer grammar FixLexer;",
+                "channels { A }",
+                "ID: [a-z]+ -> channel(B), pushMode(M);",
+                "WS: ' ' -> type(WhiteSpace);",
+                "",
+                "mode N;",
+                "X: 'x';",
+            ].join("\n");
+
+            backend.loadGrammar("test/FixLexer.g4", source);
+            try {
+                let actions = backend.getCodeActions("test/FixLexer.g4", all,
+                    backend.getDiagnostics("test/FixLexer.g4"));
+                expect(actions.map(action => action.title), "Test 8").to.eql(["Declare channel 'B'", "Add mode 'M'",
+                    "Create lexer token 'WhiteSpace'"]);
+                expect(actions[0].changes.get("test/FixLexer.g4"), "Test 9").to.eql([{
+                    range: { start: { column: 12, row: 2 }, end: { column: 12, row: 2 } }, newText: ", B"
+                }]);
+                expect(actions[1].changes.get("test/FixLexer.g4"), "Test 10").to.eql([{
+                    range: { start: { column: 7, row: 7 }, end: { column: 7, row: 7 } }, newText: "\n\nmode M;"
+                }]);
+
+                // New tokens go before the first mode.
+                expect(actions[2].changes.get("test/FixLexer.g4")![0].range.start, "Test 11")
+                    .to.eql({ column: 28, row: 4 });
+            } finally {
+                backend.releaseGrammar("test/FixLexer.g4");
+            }
+
+            source = "lexer grammar FixLexer2;\nID: [a-z]+ -> channel(B);";
+            backend.loadGrammar("test/FixLexer2.g4", source);
+            try {
+                let actions = backend.getCodeActions("test/FixLexer2.g4", all,
+                    backend.getDiagnostics("test/FixLexer2.g4"));
+                expect(actions[0].changes.get("test/FixLexer2.g4"), "Test 12").to.eql([{
+                    range: { start: { column: 24, row: 1 }, end: { column: 24, row: 1 } },
+                    newText: "\n\nchannels { B }"
+                }]);
+            } finally {
+                backend.releaseGrammar("test/FixLexer2.g4");
+            }
+
+            // Missing tokens of a parser grammar are added to the lexer grammar.
+            source = "parser grammar FixParser;\noptions { tokenVocab = TLexer; }\nstart: Missing;";
+            backend.loadGrammar("test/FixParser.g4", source);
+            try {
+                let actions = backend.getCodeActions("test/FixParser.g4", all,
+                    backend.getDiagnostics("test/FixParser.g4"));
+                expect(actions.length, "Test 13").to.equal(1);
+                expect(Array.from(actions[0].changes.keys()), "Test 14").to.eql(["test/TLexer.g4"]);
+            } finally {
+                backend.releaseGrammar("test/FixParser.g4");
+            }
+        });
+
+        it("Unused and unreachable rules", function () {
+            let source = [
+                "grammar Usage;",
+                "start: a;",
+                "a: b | a;",
+                "b: 'x';",
+                "c: d;",
+                "d: 'x' c?;",
+                "e: E;",
+                "X: 'x';",
+                "E: 'e';",
+                "U: 'u';",
+                "WS: ' ' -> skip;",
+                "fragment F: 'f';",
+                "fragment G: 'g';",
+                "H: G;",
+            ].join("\n");
+
+            backend.loadGrammar("test/Usage.g4", source);
+            try {
+                // The first parser rule is the entry rule by default.
+                let diagnostics = backend.getDiagnostics("test/Usage.g4");
+                expect(diagnostics.map(entry => entry.message), "Test 1").to.eql([
+                    "Parser rule 'c' is not reachable from the entry rule(s) start",
+                    "Parser rule 'd' is not reachable from the entry rule(s) start",
+                    "Parser rule 'e' is never used",
+                    "Token 'U' is not used by any parser rule",
+                    "Fragment rule 'F' is never used",
+                    "Token 'H' is not used by any parser rule"
+                ]);
+                expect(diagnostics.map(entry => entry.code), "Test 2").to.eql([DiagnosticCode.UnreachableRule,
+                    DiagnosticCode.UnreachableRule, DiagnosticCode.UnusedParserRule, DiagnosticCode.UnusedToken,
+                    DiagnosticCode.UnusedFragment, DiagnosticCode.UnusedToken]);
+                expect(diagnostics[0].type, "Test 3").to.equal(DiagnosticType.Warning);
+                expect(diagnostics[0].range, "Test 4").to.eql({
+                    start: { column: 0, row: 5 }, end: { column: 1, row: 5 }
+                });
+
+                // Unknown entry rules are ignored. The warnings are determined anew on each call.
+                backend.setEntryRules("test/Usage.g4", ["start", "c", "unknown"]);
+                diagnostics = backend.getDiagnostics("test/Usage.g4");
+                expect(diagnostics.map(entry => entry.message.split("'")[1]), "Test 5").to.eql(["e", "U", "F", "H"]);
+
+                backend.setEntryRules("test/Usage.g4", ["unknown"]);
+                expect(backend.getDiagnostics("test/Usage.g4").length, "Test 6").to.equal(6);
+            } finally {
+                backend.releaseGrammar("test/Usage.g4");
+            }
+
+            // Lexer grammars without a parser using them have no token warnings.
+            backend.loadGrammar("test/UsageLexer.g4", "lexer grammar UsageLexer;\nA: 'a';\nfragment B: 'b';");
+            try {
+                expect(backend.getDiagnostics("test/UsageLexer.g4").map(entry => entry.message), "Test 7")
+                    .to.eql(["Fragment rule 'B' is never used"]);
+
+                // The warnings are not stored in the source context.
+                expect(backend.getContext("test/UsageLexer.g4").diagnostics, "Test 8").to.eql([]);
+            } finally {
+                backend.releaseGrammar("test/UsageLexer.g4");
+            }
+
+            // Semantic errors don't prevent the checks, but syntax errors do.
+            backend.loadGrammar("test/UsageErrors.g4", "grammar UsageErrors;\nstart: A;\nunused: Unknown;\nA: 'a';");
+            try {
+                expect(backend.getDiagnostics("test/UsageErrors.g4").map(entry => entry.code), "Test 9").to.eql([
+                    DiagnosticCode.UnknownToken, DiagnosticCode.UnusedParserRule
+                ]);
+
+                backend.setText("test/UsageErrors.g4", "grammar UsageErrors;\nstart: A;\nunused: (A;\nA: 'a';");
+                backend.reparse("test/UsageErrors.g4");
+                let diagnostics = backend.getDiagnostics("test/UsageErrors.g4");
+                expect(diagnostics.length, "Test 10").to.be.greaterThan(0);
+                expect(diagnostics.every(entry => entry.code == undefined), "Test 11").to.be.true;
+            } finally {
+                backend.releaseGrammar("test/UsageErrors.g4");
+            }
+        });
+
+        it("Rule cycles", function () {
+            let source = [
+                "grammar Cycles;",
+                "import CycleBase;",
+                "start: a EOF | b EOF | imported | c;",
+                "a: b X | Y;",
+                "b: X? (c | e)* a Y | Z;",
+                "c: e c;",
+                "e: ;",
+                "d: d X | Y;",
+            ].join("\n");
+
+            backend.loadGrammar("test/Cycles.g4", source);
+            try {
+                let diagnostics = backend.getDiagnostics("test/Cycles.g4")
+                    .filter(entry => entry.type == DiagnosticType.Error);
+                expect(diagnostics.map(entry => entry.message), "Test 1").to.eql([
+                    "Indirect left recursion (not supported by ANTLR): start -> imported -> other -> start",
+                    "Indirect left recursion (not supported by ANTLR): a -> b -> a",
+                    "These rules can never match any input, because they only reference each other: c -> c"
+                ]);
+                expect(diagnostics.map(entry => entry.code), "Test 2").to.eql([DiagnosticCode.IndirectLeftRecursion,
+                    DiagnosticCode.IndirectLeftRecursion, DiagnosticCode.NonProductiveCycle]);
+                expect(diagnostics[1].range, "Test 3").to.eql({
+                    start: { column: 0, row: 4 }, end: { column: 1, row: 4 }
+                });
+
+                // Each step of the cycle is a related location, also in imported grammars.
+                expect(diagnostics[0].related!.map(entry => entry.message), "Test 4").to.eql([
+                    "'start' references 'imported'", "'imported' references 'other'", "'other' references 'start'"
+                ]);
+                expect(diagnostics[0].related!.map(entry => entry.source), "Test 5").to.eql([
+                    "test/Cycles.g4", "test/CycleBase.g4", "test/CycleBase.g4"
+                ]);
+                expect(diagnostics[0].related![2].range, "Test 6").to.eql({
+                    start: { column: 7, row: 5 }, end: { column: 12, row: 5 }
+                });
+                expect(diagnostics[1].related!.map(entry => entry.range.start), "Test 7").to.eql([
+                    { column: 3, row: 4 }, { column: 15, row: 5 }
+                ]);
+            } finally {
+                backend.releaseGrammar("test/Cycles.g4");
+            }
+        });
+
+        it("Lexer conflicts", function () {
+            let source = [
+                "lexer grammar Conflicts;",
+                "ID: [a-zA-Z_]+;",
+                "IF: 'if';",
+                "HEX: [0-9a-f]+;",
+                "WS: [ \\t\\r\\n]+ -> skip;",
+                "NL: '\\n';",
+                "ARROW: '=>';",
+                "ARROW2: '=>';",
+                "STRING: '\"' ~[\"\\r\\n]* '\"';",
+                "mode Other;",
+                "X: 'x' F;",
+                "XA: 'xa';",
+                "XD: 'xd';",
+                "fragment F: [a-c];",
+            ].join("\n");
+
+            backend.loadGrammar("test/Conflicts.g4", source);
+            try {
+                let diagnostics = backend.getDiagnostics("test/Conflicts.g4")
+                    .filter(entry => entry.code == DiagnosticCode.ShadowedToken
+                        || entry.code == DiagnosticCode.OverlappingTokens);
+                expect(diagnostics.map(entry => entry.message), "Test 1").to.eql([
+                    "Token 'IF' can never be matched, because the earlier rule 'ID' matches all of its input " +
+                    "(e.g. 'if')",
+                    "Tokens 'ID' and 'HEX' can match the same input (e.g. 'a'), for which the earlier rule 'ID' wins",
+                    "Token 'NL' can never be matched, because the earlier rule 'WS' matches all of its input " +
+                    "(e.g. '\\n')",
+                    "Token 'ARROW2' can never be matched, because the earlier rule 'ARROW' matches all of its input " +
+                    "(e.g. '=>')",
+                    "Token 'XA' can never be matched, because the earlier rule 'X' matches all of its input (e.g. 'xa')"
+                ]);
+                expect(diagnostics.map(entry => entry.type), "Test 2").to.eql([DiagnosticType.Warning,
+                    DiagnosticType.Info, DiagnosticType.Warning, DiagnosticType.Warning, DiagnosticType.Warning]);
+
+                // Both rule locations are given.
+                expect(diagnostics[0].range, "Test 3").to.eql({
+                    start: { column: 0, row: 3 }, end: { column: 2, row: 3 }
+                });
+                expect(diagnostics[0].related, "Test 4").to.eql([{
+                    source: "test/Conflicts.g4",
+                    range: { start: { column: 0, row: 2 }, end: { column: 2, row: 2 } },
+                    message: "'ID' is defined here"
+                }]);
+            } finally {
+                backend.releaseGrammar("test/Conflicts.g4");
+            }
+
+            // Letters in case insensitive grammars match both cases.
+            source = "lexer grammar Conflicts2;\noptions { caseInsensitive = true; }\nA: [a-c];\nB: 'B';";
+            backend.loadGrammar("test/Conflicts2.g4", source);
+            try {
+                let diagnostics = backend.getDiagnostics("test/Conflicts2.g4");
+                expect(diagnostics.map(entry => entry.code), "Test 5").to.eql([DiagnosticCode.ShadowedToken]);
+            } finally {
+                backend.releaseGrammar("test/Conflicts2.g4");
+            }
+
+            // The lexer ATN gives the same results as the parse tree.
+            let conflicts = LexerAnalyzer.fromATN({
+                atn: ANTLRv4Lexer._ATN,
+                vocabulary: ANTLRv4Lexer.VOCABULARY,
+                ruleNames: ANTLRv4Lexer.ruleNames,
+                channels: [],
+                modes: ANTLRv4Lexer.modeNames
+            }).analyze();
+            expect(conflicts.map(conflict => [conflict.other, conflict.rule, conflict.mode]), "Test 6").to.eql([
+                ["BEGIN_ACTION", "LBRACE", "DEFAULT_MODE"], ["OPT_ID", "OPT_INT", "Options"]
+            ]);
+            expect(conflicts[1].kind, "Test 7").to.equal(LexerConflictKind.Shadowed);
+            expect(conflicts[1].example, "Test 8").to.equal("'int'");
+
+            backend.loadGrammar("grammars/ANTLRv4Lexer.g4");
+            try {
+                let diagnostics = backend.getDiagnostics("grammars/ANTLRv4Lexer.g4")
+                    .filter(entry => entry.code == DiagnosticCode.ShadowedToken
+                        || entry.code == DiagnosticCode.OverlappingTokens);
+                expect(diagnostics.map(entry => entry.message.split("'")[1]), "Test 9").to.eql(["STRING_LITERAL",
+                    "LBRACE", "OPT_INT"]);
+            } finally {
+                backend.releaseGrammar("grammars/ANTLRv4Lexer.g4");
+            }
+
+            // Non-greedy loops can only be approximated, so the later rule is not reported as shadowed, even though
+            // the loop (matched greedily) would include all of its input.
+            source = "lexer grammar Conflicts3;\nCOMMENT: '/*' .*? '*/';\nNESTED: '/*a*/b*/';";
+            backend.loadGrammar("test/Conflicts3.g4", source);
+            try {
+                let diagnostics = backend.getDiagnostics("test/Conflicts3.g4");
+                expect(diagnostics.map(entry => entry.code), "Test 10").to.eql([DiagnosticCode.OverlappingTokens]);
+                expect(diagnostics[0].message, "Test 11").to.equal("Tokens 'COMMENT' and 'NESTED' might match the " +
+                    "same input (e.g. '/*a*/b*/')");
+            } finally {
+                backend.releaseGrammar("test/Conflicts3.g4");
+            }
+        });
+
+        it("Literals without token", function () {
+            let source = [
+                "parser grammar Literals;",
+                "options { tokenVocab = TLexer; }",
+                "start: 'return' '=>' 'foo2' ';' | ID '=>';",
+            ].join("\n");
+
+            backend.loadGrammar("test/Literals.g4", source);
+            try {
+                let diagnostics = backend.getDiagnostics("test/Literals.g4")
+                    .filter(entry => entry.code == DiagnosticCode.ImplicitToken);
+                expect(diagnostics.map(entry => entry.message), "Test 1").to.eql([
+                    "No token is defined for the literal '=>' and implicit tokens are only created in combined " +
+                    "grammars",
+                    "No token is defined for the literal 'foo2' and implicit tokens are only created in combined " +
+                    "grammars. The lexer produces 'ID' for it",
+                    "No token is defined for the literal '=>' and implicit tokens are only created in combined " +
+                    "grammars"
+                ]);
+                expect(diagnostics.map(entry => entry.type), "Test 2").to.eql([DiagnosticType.Warning,
+                    DiagnosticType.Warning, DiagnosticType.Warning]);
+                expect(diagnostics[1].range, "Test 3").to.eql({
+                    start: { column: 21, row: 3 }, end: { column: 27, row: 3 }
+                });
+
+                // Only literals matched by a lexer rule get a fix.
+                let actions = backend.getCodeActions("test/Literals.g4",
+                    { start: { column: 0, row: 1 }, end: { column: 0, row: 10 } }, diagnostics);
+                expect(actions.map(action => action.title), "Test 4").to.eql(["Replace with token 'ID'"]);
+                expect(actions[0].changes.get("test/Literals.g4"), "Test 5").to.eql([{
+                    range: { start: { column: 21, row: 3 }, end: { column: 27, row: 3 } }, newText: "ID"
+                }]);
+            } finally {
+                backend.releaseGrammar("test/Literals.g4");
+            }
+
+            // The literals of a vocabulary without grammar source are read from its .tokens file.
+            source = "parser grammar Literals2;\noptions { tokenVocab = TLexer3; }\nstart: ';' '=>';";
+            backend.loadGrammar("test/Literals2.g4", source);
+            try {
+                let diagnostics = backend.getDiagnostics("test/Literals2.g4");
+                expect(diagnostics.map(entry => entry.code), "Test 6").to.eql([DiagnosticCode.ImplicitToken]);
+                expect(diagnostics[0].range.start, "Test 7").to.eql({ column: 11, row: 3 });
+            } finally {
+                backend.releaseGrammar("test/Literals2.g4");
+            }
+
+            // Without any vocabulary nothing can be checked.
+            source = "parser grammar Literals3;\noptions { tokenVocab = Unknown; }\nstart: ';' '=>';";
+            backend.loadGrammar("test/Literals3.g4", source);
+            try {
+                let diagnostics = backend.getDiagnostics("test/Literals3.g4");
+                expect(diagnostics.filter(entry => entry.code == DiagnosticCode.ImplicitToken), "Test 8").to.eql([]);
+            } finally {
+                backend.releaseGrammar("test/Literals3.g4");
+            }
+        });
+
+        it("Lint rules", function () {
+            // Each diagnostic code is a lint rule.
+            expect(lintRules.size, "Test 1").to.equal(Object.keys(DiagnosticCode).length);
+            expect(lintRules.get(DiagnosticCode.OverlappingTokens), "Test 2").to.equal("info");
+
+            let source = [
+                "grammar Lint;",
+                "start: a;",
+                "// graps-disable-next-line unused-parser-rule -- Kept for later.",
+                "b: A;",
+                "c: A;",
+                "/* graps-disable unused-token,",
+                "   unreachable-rule */",
+                "A: 'a';",
+                "B: 'b';",
+                "/** graps-enable */",
+                "C: 'c';",
+                "fragment F: 'f';",
+                "a: missing;",
+            ].join("\n");
+
+            backend.loadGrammar("test/Lint.g4", source);
+            try {
+                let diagnostics = backend.getDiagnostics("test/Lint.g4");
+                expect(diagnostics.map(entry => [entry.code, entry.range.start.row]), "Test 3").to.eql([
+                    [DiagnosticCode.UnknownParserRule, 13], [DiagnosticCode.UnusedParserRule, 5],
+                    [DiagnosticCode.UnusedToken, 11], [DiagnosticCode.UnusedFragment, 12]
+                ]);
+                expect(diagnostics.map(entry => entry.type), "Test 4").to.eql([DiagnosticType.Error,
+                    DiagnosticType.Warning, DiagnosticType.Warning, DiagnosticType.Warning]);
+
+                backend.setLintOptions({ rules: { "unused-fragment": "off", "unused-parser-rule": "error" } });
+                diagnostics = backend.getDiagnostics("test/Lint.g4");
+                expect(diagnostics.map(entry => [entry.code, entry.type]), "Test 5").to.eql([
+                    [DiagnosticCode.UnknownParserRule, DiagnosticType.Error],
+                    [DiagnosticCode.UnusedParserRule, DiagnosticType.Error],
+                    [DiagnosticCode.UnusedToken, DiagnosticType.Warning]
+                ]);
+
+                // The entries of the grammar itself are not changed.
+                backend.setLintOptions({});
+                expect(backend.getDiagnostics("test/Lint.g4")[1].type, "Test 6").to.equal(DiagnosticType.Warning);
+            } finally {
+                backend.setLintOptions({});
+                backend.releaseGrammar("test/Lint.g4");
+            }
+        });
+
+        it("Registered lint rules", function () {
+            // A separate backend, as registered rules cannot be removed.
+            let linter = new AntlrLanguageSupport(".");
+            let registered = linter.registerLintRule({
+                id: "short-rule-name", severity: "info", check: (context, tree) => {
+                    let names = tree.rules().ruleSpec().map(spec => spec.parserRuleSpec()).filter(rule => rule)
+                        .map(rule => rule!.RULE_REF().symbol).filter(name => name.text!.length < 2);
+                    return names.map(name => {
+                        return {
+                            message: "Rule name '" + name.text + "' is too short",
+                            range: {
+                                start: { column: name.charPositionInLine, row: name.line },
+                                end: { column: name.charPositionInLine + 1, row: name.line }
+                            }
+                        };
+                    });
+                }
+            });
+            expect(registered, "Test 1").to.be.true;
+            expect(linter.registerLintRule({ id: "short-rule-name", severity: "error", check: () => [] }), "Test 2")
+                .to.be.false;
+            expect(linter.registerLintRule({ id: "unused-token", severity: "error", check: () => [] }), "Test 3")
+                .to.be.false;
+
+            let source = [
+                "grammar Lint2;",
+                "start: a b;",
+                "a: 'a';",
+                "// graps-disable-next-line short-rule-name",
+                "b: 'b';",
+            ].join("\n");
+
+            linter.loadGrammar("test/Lint2.g4", source);
+            try {
+                let diagnostics = linter.getDiagnostics("test/Lint2.g4");
+                expect(diagnostics.map(entry => [entry.code, entry.type, entry.range.start.row]), "Test 4").to.eql([
+                    ["short-rule-name", DiagnosticType.Info, 3]
+                ]);
+                expect(diagnostics[0].message, "Test 5").to.equal("Rule name 'a' is too short");
+
+                linter.setLintOptions({ rules: { "short-rule-name": "off" } });
+                expect(linter.getDiagnostics("test/Lint2.g4"), "Test 6").to.eql([]);
+
+                // Not run for grammars with syntax errors.
+                linter.setLintOptions({});
+                linter.setText("test/Lint2.g4", source + "\nc: (;");
+                linter.reparse("test/Lint2.g4");
+                expect(linter.getDiagnostics("test/Lint2.g4").some(entry => entry.code == "short-rule-name"),
+                    "Test 7").to.be.false;
+            } finally {
+                linter.releaseGrammar("test/Lint2.g4");
+            }
+        });
+
+        it("Signature help", function () {
+            let source = [
+                "grammar Sig;",
+                "/** Sums things. */",
+                "sum[int a, Map<String, Integer> b, String c]: ID;",
+                "start: sum[1, new HashMap<A, B>(), \"x, y\"] plain[] sum[",
+                "   2, 3] ;",
+                "plain: ID;",
+                "ID: [a-z]+;",
+            ].join("\n");
+
+            backend.loadGrammar("test/Sig.g4", source);
+            try {
+                let help = backend.getSignatureHelp("test/Sig.g4", 11, 4);
+                expect(help!.rule, "Test 1").to.equal("sum");
+                expect(help!.signature, "Test 2").to.equal("sum[int a, Map<String, Integer> b, String c]");
+                expect(help!.parameters, "Test 3").to.eql(["int a", "Map<String, Integer> b", "String c"]);
+                expect(help!.activeParameter, "Test 4").to.equal(0);
+                expect(help!.description, "Test 5").to.equal("Sums things.");
+
+                // Commas in nested brackets and strings don't separate arguments.
+                expect(backend.getSignatureHelp("test/Sig.g4", 30, 4)!.activeParameter, "Test 6").to.equal(1);
+                expect(backend.getSignatureHelp("test/Sig.g4", 41, 4)!.activeParameter, "Test 7").to.equal(2);
+                expect(backend.getSignatureHelp("test/Sig.g4", 10, 4), "Test 8").to.be.undefined;
+                expect(backend.getSignatureHelp("test/Sig.g4", 42, 4), "Test 9").to.be.undefined;
+
+                help = backend.getSignatureHelp("test/Sig.g4", 49, 4);
+                expect(help!.signature, "Test 10").to.equal("plain[]");
+                expect(help!.parameters, "Test 11").to.eql([]);
+
+                // Arguments spanning multiple lines.
+                expect(backend.getSignatureHelp("test/Sig.g4", 5, 5)!.activeParameter, "Test 12").to.equal(1);
+                expect(backend.getSignatureHelp("test/Sig.g4", 8, 5), "Test 13").to.be.undefined;
+            } finally {
+                backend.releaseGrammar("test/Sig.g4");
+            }
+        });
+
+        it("Code completion", function () {
+            let source = [
+                "grammar Comp;",
+                "options { tokenVocab = TLexer; language = Java; caseInsensitive = true; }",
+                "channels { CommentsChannel }",
+                "start options { caseInsensitive = false; } : a = ID { $a.text; } a = ID;",
+                "ID: [a-z]+ -> channel(HIDDEN), mode(Second);",
+                "WS: ' ' { $text; } -> skip;",
+                "mode Second;",
+                "X: 'x' -> type(ID);",
+            ].join("\n");
+
+            backend.loadGrammar("test/Comp.g4", source);
+            try {
+                let candidates = backend.getCodeCompletionCandidates("test/Comp.g4", 12, 2);
+                expect(candidates.map(candidate => candidate.name), "Test 1").to.eql(["superClass", "tokenVocab",
+                    "TokenLabelType", "contextSuperClass", "exportMacro", "language", "caseInsensitive"]);
+                expect(candidates[0].kind, "Test 2").to.equal(SymbolKind.Option);
+                expect(candidates[0].description, "Test 3")
+                    .to.equal("The base class of the generated parser or lexer");
+
+                candidates = backend.getCodeCompletionCandidates("test/Comp.g4", 25, 2); // tokenVocab value
+                let vocabularies = candidates.filter(candidate => candidate.kind == SymbolKind.TokenVocab);
+                expect(vocabularies.map(candidate => candidate.name), "Test 4")
+                    .to.include.members(["TLexer", "TParser"]);
+                expect(vocabularies.map(candidate => candidate.name), "Test 5").not.to.include("Comp");
+                candidates = backend.getCodeCompletionCandidates("test/Comp.g4", 43, 2); // language value
+                expect(candidates.map(candidate => candidate.name), "Test 6")
+                    .to.include.members(["Cpp", "Java", "TypeScript"]);
+                candidates = backend.getCodeCompletionCandidates("test/Comp.g4", 67, 2); // caseInsensitive value
+                expect(candidates.map(candidate => candidate.name).slice(0, 2), "Test 7").to.eql(["true", "false"]);
+
+                // Rule options.
+                candidates = backend.getCodeCompletionCandidates("test/Comp.g4", 16, 4);
+                expect(candidates.map(candidate => candidate.name), "Test 8").to.eql(["caseInsensitive"]);
+
+                // Lexer commands and their arguments.
+                candidates = backend.getCodeCompletionCandidates("test/Comp.g4", 14, 5);
+                expect(candidates.map(candidate => candidate.name), "Test 9")
+                    .to.eql(["skip", "more", "type", "channel", "mode", "pushMode", "popMode"]);
+                candidates = backend.getCodeCompletionCandidates("test/Comp.g4", 23, 5);
+                expect(candidates.map(candidate => candidate.name), "Test 10")
+                    .to.eql(["DEFAULT_TOKEN_CHANNEL", "HIDDEN", "CommentsChannel", "DirectiveChannel"]);
+                candidates = backend.getCodeCompletionCandidates("test/Comp.g4", 37, 5);
+                expect(candidates.map(candidate => candidate.name), "Test 11")
+                    .to.eql(["DEFAULT_MODE", "Second", "Mode1", "Mode2"]);
+                candidates = backend.getCodeCompletionCandidates("test/Comp.g4", 16, 8);
+                expect(candidates.map(candidate => candidate.name), "Test 12").to.include.members(["ID", "X", "DUMMY"]);
+
+                // Attributes in actions.
+                candidates = backend.getCodeCompletionCandidates("test/Comp.g4", 55, 4);
+                expect(candidates.map(candidate => candidate.name), "Test 13")
+                    .to.eql(["a", "text", "start", "stop", "ctx", "parser"]);
+                expect(candidates[0].kind, "Test 14").to.equal(SymbolKind.ElementLabel);
+                candidates = backend.getCodeCompletionCandidates("test/Comp.g4", 11, 6);
+                expect(candidates.map(candidate => candidate.name), "Test 15")
+                    .to.eql(["text", "type", "line", "pos", "index", "channel", "mode"]);
+            } finally {
+                backend.releaseGrammar("test/Comp.g4");
+            }
+        });
+
+        it("Completion snippets", function () {
+            backend.loadGrammar("test/Snip.g4", "grammar Snip;\n\nstart: ID;\n\nID: [a-z]+ ;\n");
+            backend.loadGrammar("test/Snip2.g4", "lexer grammar Snip2;\nID: [a-z]+;\n\n");
+            try {
+                let candidates = backend.getCodeCompletionCandidates("test/Snip.g4", 0, 2);
+                let snippets = candidates.filter(candidate => candidate.snippet !== undefined);
+                expect(snippets.map(candidate => candidate.name), "Test 1")
+                    .to.eql(["parser rule", "lexer rule", "fragment rule", "options block"]);
+                expect(snippets[0].kind, "Test 2").to.equal(SymbolKind.ParserRule);
+                expect(snippets[0].snippet, "Test 3").to.equal("${1:name}\n\t: ${0}\n\t;");
+                expect(snippets[2].snippet, "Test 4").to.equal("fragment ${1:Name}\n\t: ${0}\n\t;");
+                expect(snippets[3].snippet, "Test 5").to.equal("options {\n\t${1:name} = ${2:value};\n}");
+                expect(candidates.find(candidate => candidate.name == "fragment")!.snippet, "Test 6").to.be.undefined;
+
+                // New rules between existing rules and lexer commands.
+                candidates = backend.getCodeCompletionCandidates("test/Snip.g4", 0, 4);
+                expect(candidates.filter(candidate => candidate.snippet).length, "Test 7").to.equal(3);
+                candidates = backend.getCodeCompletionCandidates("test/Snip.g4", 11, 5);
+                let channel = candidates.find(candidate => candidate.name == "-> channel(HIDDEN)");
+                expect(channel!.snippet, "Test 8").to.equal("-> channel(${1:HIDDEN})");
+
+                // Modes only in lexer grammars, no parser rules there.
+                candidates = backend.getCodeCompletionCandidates("test/Snip2.g4", 0, 3);
+                snippets = candidates.filter(candidate => candidate.snippet !== undefined);
+                expect(snippets.map(candidate => candidate.name), "Test 9")
+                    .to.eql(["lexer rule", "fragment rule", "mode section"]);
+                expect(snippets[2].snippet, "Test 10").to.equal("mode ${1:Name};\n\n${0}");
+            } finally {
+                backend.releaseGrammar("test/Snip.g4");
+                backend.releaseGrammar("test/Snip2.g4");
+            }
+        });
     });
 
     describe('Advanced Symbol Informations:', function () {
@@ -488,7 +1693,8 @@ describe('antlr4-graps:', function () {
                 // File contains left recursive rule which are detected only by the ANTLR.
                 // Hence we need a generation run to report them.
                 let parserDiags = backend.getDiagnostics("test/t2.g4");
-                expect(parserDiags.length, "Test 1").to.be.equal(0); // No error here yet.
+                expect(parserDiags.filter(entry => entry.type == DiagnosticType.Error).length, "Test 1")
+                    .to.be.equal(0); // No error here yet.
 
                 let result = await backend.generate("test/t2.g4", {
                     outputDir: "generated", language: "Cpp", package: "graps", listeners: false, visitors: true
@@ -712,6 +1918,287 @@ describe('antlr4-graps:', function () {
             }
         });
     });
+
+    describe("Language Server:", function () {
+        it("Document sync and requests", async function () {
+            this.timeout(20000);
+
+            // Connect a client to an in-process server instance.
+            let toServer = new PassThrough();
+            let toClient = new PassThrough();
+            let server = new GrapsLanguageServer(lsp.createConnection(new lsp.StreamMessageReader(toServer),
+                new lsp.StreamMessageWriter(toClient)));
+            server.listen();
+
+            let client = lsp.createProtocolConnection(new lsp.StreamMessageReader(toClient),
+                new lsp.StreamMessageWriter(toServer), { error: () => {}, warn: () => {}, info: () => {}, log: () => {} });
+            client.listen();
+
+            try {
+                let result = await client.sendRequest(lsp.InitializeRequest.type, {
+                    processId: null, rootUri: null, capabilities: {}, workspaceFolders: null,
+                    initializationOptions: { importDir: path.resolve("test") }
+                });
+                expect(result.capabilities.definitionProvider, "Test 1").to.be.true;
+
+                let uri = "file://" + path.resolve("test/TParser.g4");
+                let diagnostics = new Promise<lsp.PublishDiagnosticsParams>(resolve => {
+                    client.onNotification(lsp.PublishDiagnosticsNotification.type, resolve);
+                });
+                client.sendNotification(lsp.DidOpenTextDocumentNotification.type, {
+                    textDocument: {
+                        uri: uri, languageId: "antlr", version: 1,
+                        text: fs.readFileSync("test/TParser.g4", { encoding: "utf8" })
+                    }
+                });
+                expect((await diagnostics).uri, "Test 2").to.equal(uri);
+
+                // Semicolon in rule stat. LSP lines are zero-based.
+                let position = { textDocument: { uri: uri }, position: { line: 95, character: 24 } };
+                let hover = await client.sendRequest(lsp.HoverRequest.type, position);
+                expect((hover!.contents as lsp.MarkupContent).value, "Test 3").to.contain("**Lexer token** Semicolon");
+
+                let definition = await client.sendRequest(lsp.DefinitionRequest.type, position) as lsp.Location;
+                expect(definition.uri, "Test 4").to.equal("file://" + path.resolve("test/TLexer.g4"));
+                expect(definition.range.start.line, "Test 5").to.equal(58);
+
+                let references = await client.sendRequest(lsp.ReferencesRequest.type,
+                    { textDocument: position.textDocument, position: position.position, context: { includeDeclaration: true } });
+                expect(references!.length, "Test 6").to.equal(5);
+
+                let symbols = await client.sendRequest(lsp.DocumentSymbolRequest.type,
+                    { textDocument: position.textDocument }) as lsp.DocumentSymbol[];
+                expect(symbols.length, "Test 7").to.equal(1);
+                expect(symbols[0].name, "Test 8").to.equal("TParser");
+                expect(symbols[0].children!.length, "Test 9").to.equal(41);
+
+                let highlights = await client.sendRequest(lsp.DocumentHighlightRequest.type, position);
+                expect(highlights!.length, "Test 10").to.equal(4);
+                expect(highlights![0].kind, "Test 11").to.equal(lsp.DocumentHighlightKind.Read);
+
+                let foldingRanges = await client.sendRequest(lsp.FoldingRangeRequest.type,
+                    { textDocument: position.textDocument });
+                expect(foldingRanges!.length, "Test 12").to.equal(12);
+                expect(foldingRanges![2].startLine, "Test 13").to.equal(25);
+                expect(foldingRanges![2].kind, "Test 14").to.equal(lsp.FoldingRangeKind.Comment);
+
+                // The semantic tokens capability is not yet part of the protocol version used here.
+                let capabilities = result.capabilities as lsp.ServerCapabilities & {
+                    semanticTokensProvider: { legend: { tokenTypes: string[], tokenModifiers: string[] } }
+                };
+                let legend = capabilities.semanticTokensProvider.legend;
+                expect(legend.tokenTypes[SemanticTokenType.FragmentToken], "Test 15").to.equal("fragmentToken");
+                expect(legend.tokenModifiers, "Test 16").to.eql(["definition", "unused", "imported"]);
+                let semanticTokens = await client.sendRequest("textDocument/semanticTokens/full",
+                    { textDocument: position.textDocument }) as { data: number[] };
+                expect(semanticTokens.data.slice(0, 5), "Test 17").to.eql([3, 1, 10, SemanticTokenType.Option, 0]);
+
+                // Empty line after rule conquer.
+                let completions = await client.sendRequest(lsp.CompletionRequest.type, {
+                    textDocument: position.textDocument, position: { line: 79, character: 0 }
+                }) as lsp.CompletionItem[];
+                let ruleSnippet = completions.find(item => item.label == "parser rule");
+                expect(ruleSnippet!.kind, "Test 18").to.equal(lsp.CompletionItemKind.Snippet);
+                expect(ruleSnippet!.insertTextFormat, "Test 19").to.equal(lsp.InsertTextFormat.Snippet);
+                expect(ruleSnippet!.insertText, "Test 20").to.equal("${1:name}\n\t: ${0}\n\t;");
+
+                let signatureHelp = await client.sendRequest(lsp.SignatureHelpRequest.type, {
+                    textDocument: position.textDocument, position: { line: 92, character: 9 } // unused[1]
+                });
+                expect(signatureHelp!.signatures[0].label, "Test 21").to.equal("unused[double input = 111]");
+                expect(signatureHelp!.signatures[0].parameters!.length, "Test 22").to.equal(1);
+                expect(signatureHelp!.activeParameter, "Test 23").to.equal(0);
+
+                let codeLenses = await client.sendRequest(lsp.CodeLensRequest.type,
+                    { textDocument: position.textDocument });
+                expect(codeLenses!.length, "Test 24").to.equal(13 * 5);
+                expect(codeLenses![0].range.start.line, "Test 25").to.equal(70);
+                expect(codeLenses![0].command!.title, "Test 26").to.equal("0 references");
+                expect(codeLenses![1].command!.command, "Test 27").to.equal("antlr.showRailroadDiagram");
+                expect(codeLenses![1].command!.arguments, "Test 28").to.eql([uri, "main"]);
+
+                // The open grammar is not indexed a second time, but other grammars in the import dir are.
+                let workspaceSymbols = await client.sendRequest(lsp.WorkspaceSymbolRequest.type,
+                    { query: "flowcontrol" });
+                expect(workspaceSymbols!.map(symbol => symbol.location.uri), "Test 29")
+                    .to.eql([uri, "file://" + path.resolve("test/TParser2.g4")]);
+                workspaceSymbols = await client.sendRequest(lsp.WorkspaceSymbolRequest.type,
+                    { query: "translationunit" });
+                expect(workspaceSymbols!.length, "Test 30").to.equal(1);
+                expect(workspaceSymbols![0].location.uri, "Test 31")
+                    .to.equal("file://" + path.resolve("test/CPP14.g4"));
+                expect(workspaceSymbols![0].location.range.start.line, "Test 32").to.equal(53);
+
+                let selectionRanges = await client.sendRequest("textDocument/selectionRange", {
+                    textDocument: { uri: uri }, positions: [{ line: 111, character: 3 }]
+                }) as { range: lsp.Range, parent?: object }[];
+                expect(selectionRanges.length, "Test 33").to.equal(1);
+                expect(selectionRanges[0].range, "Test 34").to.eql({
+                    start: { line: 111, character: 2 }, end: { line: 111, character: 8 }
+                });
+                expect(selectionRanges[0].parent, "Test 35").to.have.property("range");
+
+                let inlayHints = await client.sendRequest("textDocument/inlayHint", {
+                    textDocument: { uri: uri },
+                    range: { start: { line: 0, character: 0 }, end: { line: 200, character: 0 } }
+                }) as { position: lsp.Position, label: string }[];
+                expect(inlayHints.length, "Test 36").to.equal(1);
+                expect(inlayHints[0].position, "Test 37").to.eql({ line: 111, character: 24 });
+                expect(inlayHints[0].label, "Test 38").to.equal(": Return");
+
+                // Quick fixes for diagnostics after an edit.
+                diagnostics = new Promise<lsp.PublishDiagnosticsParams>(resolve => {
+                    client.onNotification(lsp.PublishDiagnosticsNotification.type, resolve);
+                });
+                client.sendNotification(lsp.DidChangeTextDocumentNotification.type, {
+                    textDocument: { uri: uri, version: 2 },
+                    contentChanges: [{ text: fs.readFileSync("test/TParser.g4", { encoding: "utf8" }) + "\nx: y;\n" }]
+                });
+                let published = (await diagnostics).diagnostics;
+                let errors = published.filter(diagnostic => diagnostic.severity == lsp.DiagnosticSeverity.Error);
+                expect(errors.map(diagnostic => diagnostic.code), "Test 39").to.eql(["unknown-parser-rule"]);
+
+                let codeActions = await client.sendRequest(lsp.CodeActionRequest.type, {
+                    textDocument: { uri: uri }, range: errors[0].range, context: { diagnostics: published }
+                }) as lsp.CodeAction[];
+                expect(codeActions.length, "Test 40").to.equal(1);
+                expect(codeActions[0].title, "Test 41").to.equal("Create parser rule 'y'");
+                expect(codeActions[0].kind, "Test 42").to.equal(lsp.CodeActionKind.QuickFix);
+                expect(codeActions[0].diagnostics, "Test 43").to.eql(errors);
+                expect(codeActions[0].edit!.changes![uri][0].newText, "Test 44").to.equal("\n\ny: ;");
+
+                // Rule cycles come with the locations of all participating references.
+                diagnostics = new Promise<lsp.PublishDiagnosticsParams>(resolve => {
+                    client.onNotification(lsp.PublishDiagnosticsNotification.type, resolve);
+                });
+                client.sendNotification(lsp.DidChangeTextDocumentNotification.type, {
+                    textDocument: { uri: uri, version: 3 },
+                    contentChanges: [{
+                        text: fs.readFileSync("test/TParser.g4", { encoding: "utf8" }) + "\nx: z;\nz: x | ;\n"
+                    }]
+                });
+                errors = (await diagnostics).diagnostics
+                    .filter(diagnostic => diagnostic.severity == lsp.DiagnosticSeverity.Error);
+                expect(errors.map(diagnostic => diagnostic.code), "Test 45").to.eql(["indirect-left-recursion"]);
+                expect(errors[0].relatedInformation!.map(related => related.location.uri), "Test 46")
+                    .to.eql([uri, uri]);
+                expect(errors[0].relatedInformation![1].message, "Test 47").to.equal("'z' references 'x'");
+
+                // Built-in symbols have no source file.
+                hover = await client.sendRequest(lsp.HoverRequest.type,
+                    { textDocument: position.textDocument, position: { line: 70, character: 12 } }); // EOF
+                expect((hover!.contents as lsp.MarkupContent).value, "Test 48").to.not.contain("ANTLR runtime");
+
+                // A change of the token vocabulary also publishes the diagnostics of the open parser grammar.
+                let lexerUri = "file://" + path.resolve("test/TLexer.g4");
+                let lexerText = fs.readFileSync("test/TLexer.g4", { encoding: "utf8" });
+                let parserDiagnostics = () => new Promise<lsp.PublishDiagnosticsParams>(resolve => {
+                    client.onNotification(lsp.PublishDiagnosticsNotification.type, params => {
+                        if (params.uri == uri) {
+                            resolve(params);
+                        }
+                    });
+                });
+                diagnostics = parserDiagnostics(); // Opening a document also counts as content change.
+                client.sendNotification(lsp.DidOpenTextDocumentNotification.type, {
+                    textDocument: { uri: lexerUri, languageId: "antlr", version: 1, text: lexerText }
+                });
+                await diagnostics;
+
+                diagnostics = parserDiagnostics();
+                client.sendNotification(lsp.DidChangeTextDocumentNotification.type, {
+                    textDocument: { uri: lexerUri, version: 2 },
+                    contentChanges: [{ text: lexerText.replace("Semicolon: ';';", "Semi: ';';") }]
+                });
+                errors = (await diagnostics).diagnostics
+                    .filter(diagnostic => diagnostic.severity == lsp.DiagnosticSeverity.Error);
+                let unknown = errors.filter(diagnostic => diagnostic.code == "unknown-token");
+                expect(unknown.length, "Test 49").to.equal(4);
+                expect(unknown[0].message, "Test 50").to.contain("Semicolon");
+            } finally {
+                client.sendNotification(lsp.DidCloseTextDocumentNotification.type, {
+                    textDocument: { uri: "file://" + path.resolve("test/TLexer.g4") }
+                });
+                client.sendNotification(lsp.DidCloseTextDocumentNotification.type, {
+                    textDocument: { uri: "file://" + path.resolve("test/TParser.g4") }
+                });
+                client.dispose();
+            }
+        });
+    });
+
+    describe("Command Line Tool:", function () {
+        // Runs the tool with the given arguments and returns the exit code and the text written to stdout + stderr.
+        async function runCli(...args: string[]): Promise<[number, string, string]> {
+            let out = new PassThrough();
+            let err = new PassThrough();
+            let code = await new GrapsCli(out, err).run(args);
+            return [code, (out.read() || "").toString(), (err.read() || "").toString()];
+        }
+
+        it("Lint", async function () {
+            let [code, output] = await runCli("lint", "test/t.g4");
+            expect(code, "Test 1").to.equal(1);
+            expect(output, "Test 2").to.equal("test/t.g4:3:4: error: Unknown token reference 'ZZ'\n" +
+                "test/t.g4:8:19: error: Unknown channel 'BLAH'\n" +
+                "test/t.g4:3:1: warning: Parser rule 'y' is never used\n" +
+                "test/t.g4:5:1: warning: Token 'D' is not used by any parser rule\n");
+
+            [code, output] = await runCli("--import-dir", ".", "lint", "test/TLexer.g4", "test/TParser.g4");
+            expect(code, "Test 3").to.equal(0); // Warnings only.
+            expect(output, "Test 4").not.to.contain(": error: ");
+            expect(output, "Test 5").to.contain("test/TParser.g4:75:1: warning: Parser rule 'conquer' is never used\n");
+
+            [code, output] = await runCli("lint", "--rule", "unknown-channel=warning", "--rule=unused-token=off",
+                "test/t.g4");
+            expect(code, "Test 6").to.equal(1);
+            expect(output, "Test 7").to.equal("test/t.g4:3:4: error: Unknown token reference 'ZZ'\n" +
+                "test/t.g4:8:19: warning: Unknown channel 'BLAH'\n" +
+                "test/t.g4:3:1: warning: Parser rule 'y' is never used\n");
+
+            let errors;
+            [code, output, errors] = await runCli("lint", "--rule", "unused-rule=off", "test/t.g4");
+            expect(code, "Test 8").to.equal(2);
+            expect(errors, "Test 9").to.match(/^Unknown lint rule: unused-rule/);
+
+            // An inline option value, which happens to equal the next argument.
+            [code, output] = await runCli("--import-dir=lint", "lint", "test/t.g4");
+            expect(code, "Test 10").to.equal(1);
+            expect(output, "Test 11").to.contain("test/t.g4:3:4: error: Unknown token reference 'ZZ'\n");
+        });
+
+        it("Format, RRD and errors", async function () {
+            let [code, output] = await runCli("format", "test/formatting/raw.g4");
+            expect(code, "Test 1").to.equal(0);
+            let expected = fs.readFileSync("test/formatting-results/raw.g4", { encoding: "utf8" });
+            expect(output, "Test 2").to.equal(expected);
+
+            [code, output] = await runCli("format", "--check", "test/formatting/raw.g4");
+            expect(code, "Test 3").to.equal(1);
+            expect(output, "Test 4").to.equal("test/formatting/raw.g4 is not formatted\n");
+
+            [code, output] = await runCli("rrd", "test/TParser.g4", "idarray");
+            expect(code, "Test 5").to.equal(0);
+            expect(output, "Test 6").to.equal(backend.getRRDScript("test/TParser.g4", "idarray") + "\n");
+
+            let errors: string;
+            [code, output, errors] = await runCli("rrd", "test/TParser.g4", "unknownRule");
+            expect(code, "Test 7").to.equal(1);
+            expect(errors, "Test 8").to.equal("Unknown rule: unknownRule\n");
+
+            [code, output, errors] = await runCli("format", "--check", "--in-place", "test/t.g4");
+            expect(code, "Test 9").to.equal(2);
+            expect(errors, "Test 10").to.match(/^--in-place and --check cannot be used together\n\nUsage: graps/);
+
+            [code, output, errors] = await runCli("sentences", "--count", "x", "test/t.g4", "a");
+            expect(code, "Test 11").to.equal(2);
+            expect(errors, "Test 12").to.match(/^Invalid number for option --count: x/);
+
+            [code, output, errors] = await runCli("lint", "test/missing.g4");
+            expect(code, "Test 13").to.equal(1);
+            expect(errors, "Test 14").to.equal("Cannot find grammar test/missing.g4\n");
+        });
+    });
 });
 
 /**